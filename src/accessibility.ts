@@ -0,0 +1,120 @@
+import { PDFDocument, PDFName } from 'pdf-lib';
+import type { AccessibilityIssue } from './types.js';
+import type { RenderPage } from './renderer.js';
+
+/**
+ * Prepare the cleaned-up content for a tagged PDF and report what assistive technology
+ * would miss. Chrome builds the PDF structure tree from the accessibility tree, so:
+ *
+ * - the document language comes from the page or the metadata
+ * - images without alt text take their `title` or `aria-label`
+ * - labelled SVGs become images, unlabelled ones are hidden as decoration
+ * - CSS `order` and reversed flex directions are reset, so the visual order matches the DOM
+ */
+export async function prepareAccessibleContent(
+  page: RenderPage,
+  language?: string
+): Promise<AccessibilityIssue[]> {
+  return page.evaluate((language) => {
+    const issues: AccessibilityIssue[] = [];
+    const container = document.body.firstElementChild;
+    if (!container) return issues;
+
+    if (!document.documentElement.lang && language) document.documentElement.lang = language;
+    if (!document.documentElement.lang) {
+      issues.push({ rule: 'document-language', message: 'The page declares no language' });
+    }
+
+    container.querySelectorAll('img').forEach((image) => {
+      if (image.hasAttribute('alt')) return;
+      const label = image.title.trim() || image.getAttribute('aria-label')?.trim();
+      const decorative =
+        image.getAttribute('role') === 'presentation' ||
+        image.getAttribute('aria-hidden') === 'true';
+      if (label) {
+        image.alt = label;
+      } else if (!decorative) {
+        const source = image.currentSrc || image.src;
+        const name = source.startsWith('data:') ? 'inline image' : source.split('/').pop();
+        issues.push({ rule: 'image-alt', message: `Image without alt text: ${name}` });
+      }
+    });
+
+    container.querySelectorAll('svg').forEach((svg) => {
+      if (svg.parentElement?.closest('svg') || svg.getAttribute('aria-hidden') === 'true') return;
+      const labelled =
+        svg.hasAttribute('aria-label') ||
+        svg.hasAttribute('aria-labelledby') ||
+        svg.querySelector(':scope > title');
+      if (labelled) svg.setAttribute('role', 'img');
+      else svg.setAttribute('aria-hidden', 'true');
+    });
+
+    let previousLevel = 0;
+    container.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((heading) => {
+      const level = Number(heading.tagName[1]);
+      if (previousLevel > 0 && level > previousLevel + 1) {
+        issues.push({
+          rule: 'heading-order',
+          message: `h${level} "${heading.textContent?.trim()}" follows an h${previousLevel}`,
+        });
+      }
+      previousLevel = level;
+    });
+
+    container.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((link) => {
+      const named =
+        link.textContent?.trim() ||
+        link.getAttribute('aria-label')?.trim() ||
+        link.querySelector('img[alt]:not([alt=""]), svg[role="img"]');
+      if (!named) {
+        issues.push({ rule: 'link-name', message: `Link without text: ${link.href}` });
+      }
+    });
+
+    container.querySelectorAll('table').forEach((table) => {
+      if (table.getAttribute('role') === 'presentation' || table.rows.length < 2) return;
+      if (!table.querySelector('th')) {
+        const caption = table.caption?.textContent?.trim();
+        issues.push({
+          rule: 'table-headers',
+          message: caption
+            ? `Table without header cells: ${caption}`
+            : 'Table without header cells',
+        });
+      }
+    });
+
+    // The structure tree follows the DOM, so the layout must not reorder content visually
+    container.querySelectorAll<HTMLElement>('*').forEach((element) => {
+      const style = getComputedStyle(element);
+      if (style.order !== '0') element.style.order = '0';
+      if (style.flexDirection.endsWith('-reverse')) {
+        element.style.flexDirection = style.flexDirection.replace('-reverse', '');
+      }
+    });
+
+    return issues;
+  }, language);
+}
+
+/**
+ * Report a PDF without a structure tree, e.g. from a Chrome that cannot tag PDFs
+ */
+export async function checkStructureTree(pdf: Uint8Array): Promise<AccessibilityIssue[]> {
+  const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+  return doc.catalog.has(PDFName.of('StructTreeRoot'))
+    ? []
+    : [{ rule: 'untagged', message: 'The PDF has no structure tree' }];
+}
+
+/**
+ * Summarize issues for a response header: issue counts per rule, or `none`
+ */
+export function formatAccessibilityIssues(issues: AccessibilityIssue[]) {
+  const counts = new Map<string, number>();
+  issues.forEach(({ rule }) => counts.set(rule, (counts.get(rule) ?? 0) + 1));
+  return counts.size > 0
+    ? [...counts].map(([rule, count]) => `${rule}=${count}`).join(',')
+    : 'none';
+}
@@ -0,0 +1,366 @@
+import type { Browser, BrowserContext, EvaluateFunc, Page } from 'puppeteer';
+import type { BrowserPoolOptions } from './types.js';
+import type { RenderContext, Renderer, RenderPage } from './renderer.js';
+import { PdfExportError } from './errors.js';
+import { consoleLogger } from './metrics.js';
+
+const defaultPoolOptions: Required<
+  Omit<BrowserPoolOptions, 'launchOptions' | 'connectOptions' | 'puppeteer'>
+> = {
+  size: 2,
+  maxPagesPerBrowser: 4,
+  maxRendersPerBrowser: 100,
+  idleTimeout: 60000,
+  logger: consoleLogger,
+};
+
+/**
+ * A managed pool of warm headless browsers, the built-in Puppeteer renderer
+ */
+export interface BrowserPool extends Renderer {
+  /**
+   * Run a render in a fresh, isolated browser context.
+   * Waits for a free slot when every browser is at capacity.
+   * The context (and its cookies) is discarded afterwards.
+   */
+  run<T>(task: (context: RenderContext) => Promise<T>): Promise<T>;
+
+  /**
+   * Current pool usage
+   */
+  stats(): BrowserPoolStats;
+
+  /**
+   * Close all browsers (or disconnect from them) and reject further renders
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Snapshot of pool usage
+ */
+export interface BrowserPoolStats {
+  browsers: number;
+  activeRenders: number;
+  waiting: number;
+}
+
+interface PoolEntry {
+  browser: Browser;
+  active: number;
+  renders: number;
+  retiring: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Pools with live browsers, killed synchronously if the process exits without closing them
+const livePools = new Set<{ kill(): void }>();
+let exitHookInstalled = false;
+
+function installExitHook() {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  const killAll = () => livePools.forEach((pool) => pool.kill());
+  process.once('exit', killAll);
+
+  // Signals end the process without an `exit` event unless someone listens for them
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.once(signal, () => {
+      killAll();
+      // Exit as Node would have, unless the application handles the signal itself
+      if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+    });
+  }
+}
+
+/**
+ * Create a browser pool that can be shared across several handlers
+ *
+ * @example
+ * // lib/pdf-pool.ts
+ * import { createBrowserPool } from 'fumadocs-pdf-export';
+ *
+ * export const pdfPool = createBrowserPool({ size: 2, maxPagesPerBrowser: 4 });
+ *
+ * // app/api/docs-pdf/route.ts
+ * export const GET = createPdfExportHandler({ browserPool: pdfPool });
+ *
+ * // app/api/blog-pdf/route.ts
+ * export const GET = createPdfExportHandler({ browserPool: pdfPool, contentSelector: 'main' });
+ *
+ * @example
+ * // Connect to a running Chrome instead of launching one
+ * createBrowserPool({ connectOptions: { browserWSEndpoint: 'ws://chrome:3000' } });
+ *
+ * @example
+ * // Serverless: puppeteer-core with @sparticuz/chromium
+ * import puppeteer from 'puppeteer-core';
+ * import chromium from '@sparticuz/chromium';
+ *
+ * createBrowserPool({
+ *   size: 1,
+ *   puppeteer,
+ *   launchOptions: { executablePath: await chromium.executablePath(), args: chromium.args },
+ * });
+ */
+export function createBrowserPool(options: BrowserPoolOptions = {}): BrowserPool {
+  const config = { ...defaultPoolOptions, ...options };
+  const entries: PoolEntry[] = [];
+  const waiters: (() => void)[] = [];
+  let launching = 0;
+  let closed = false;
+
+  const handle = {
+    kill() {
+      entries.forEach((entry) => entry.browser.process()?.kill('SIGKILL'));
+    },
+  };
+
+  function wakeNext() {
+    waiters.shift()?.();
+  }
+
+  function remove(entry: PoolEntry) {
+    const index = entries.indexOf(entry);
+    if (index !== -1) entries.splice(index, 1);
+    if (entry.idleTimer) clearTimeout(entry.idleTimer);
+    if (entries.length === 0) livePools.delete(handle);
+    wakeNext();
+  }
+
+  async function retire(entry: PoolEntry) {
+    remove(entry);
+    // Connected browsers belong to someone else: only drop the connection
+    const release = config.connectOptions ? entry.browser.disconnect() : entry.browser.close();
+    await release.catch(() => undefined);
+  }
+
+  async function start() {
+    // puppeteer is only loaded when no other implementation (e.g. puppeteer-core) is passed
+    const puppeteer = config.puppeteer ?? (await import('puppeteer')).default;
+    return config.connectOptions
+      ? puppeteer.connect(config.connectOptions)
+      : puppeteer.launch({
+          headless: true,
+          args: ['--no-sandbox', '--disable-setuid-sandbox', '--ignore-certificate-errors'],
+          ...config.launchOptions,
+        });
+  }
+
+  async function launch() {
+    const browser = await start().catch((error: unknown) => {
+      throw new PdfExportError('browser-launch-failed', 'The PDF renderer is unavailable', {
+        cause: error,
+      });
+    });
+
+    // The slot of the render that launched the browser is taken right away
+    const entry: PoolEntry = { browser, active: 1, renders: 0, retiring: false };
+
+    // Crash detection: drop the browser so the next render launches a new one
+    browser.once('disconnected', () => {
+      if (entries.includes(entry)) {
+        config.logger({ level: 'error', event: 'browser-disconnected' });
+        remove(entry);
+      }
+    });
+
+    entries.push(entry);
+    livePools.add(handle);
+    installExitHook();
+    return entry;
+  }
+
+  /**
+   * Take a render slot. Slots are counted before anything is awaited, so concurrent
+   * callers never see the same free slot.
+   */
+  async function acquire(): Promise<PoolEntry> {
+    for (;;) {
+      if (closed) throw new Error('Browser pool is closed');
+
+      const available = entries.find(
+        (entry) =>
+          !entry.retiring && entry.browser.connected && entry.active < config.maxPagesPerBrowser
+      );
+      if (available) {
+        available.active++;
+        if (available.idleTimer) {
+          clearTimeout(available.idleTimer);
+          available.idleTimer = undefined;
+        }
+        return available;
+      }
+
+      if (entries.length + launching < config.size) {
+        launching++;
+        try {
+          return await launch();
+        } catch (error) {
+          wakeNext();
+          throw error;
+        } finally {
+          launching--;
+        }
+      }
+
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  }
+
+  function release(entry: PoolEntry) {
+    entry.active--;
+    entry.renders++;
+
+    if (entry.renders >= config.maxRendersPerBrowser) {
+      entry.retiring = true;
+    }
+
+    if (entry.active === 0) {
+      if (entry.retiring) {
+        void retire(entry);
+        return;
+      }
+      if (config.idleTimeout > 0) {
+        entry.idleTimer = setTimeout(() => void retire(entry), config.idleTimeout);
+        entry.idleTimer.unref?.();
+      }
+    }
+
+    wakeNext();
+  }
+
+  return {
+    async run(task) {
+      const entry = await acquire();
+
+      let context: BrowserContext | undefined;
+      try {
+        context = await entry.browser.createBrowserContext();
+        return await task(toRenderContext(context));
+      } finally {
+        await context?.close().catch(() => undefined);
+        release(entry);
+      }
+    },
+
+    stats() {
+      return {
+        browsers: entries.length,
+        activeRenders: entries.reduce((total, entry) => total + entry.active, 0),
+        waiting: waiters.length,
+      };
+    },
+
+    async close() {
+      closed = true;
+      waiters.splice(0).forEach((resolve) => resolve());
+      await Promise.all([...entries].map((entry) => retire(entry)));
+      livePools.delete(handle);
+    },
+  };
+}
+
+/**
+ * Check whether a value is a pool rather than pool options
+ */
+export function isBrowserPool(value: BrowserPool | BrowserPoolOptions): value is BrowserPool {
+  return typeof (value as BrowserPool).run === 'function';
+}
+
+function toRenderContext(context: BrowserContext): RenderContext {
+  return {
+    newPage: async () => toRenderPage(await context.newPage()),
+  };
+}
+
+type PageFunction<Args extends unknown[], Result> = EvaluateFunc<Args> &
+  ((...args: Args) => Result);
+
+/**
+ * Adapt a Puppeteer page to the renderer's page interface
+ */
+export function toRenderPage(page: Page): RenderPage {
+  return {
+    async setCookies(cookies) {
+      if (cookies.length > 0) await page.setCookie(...cookies);
+    },
+
+    async setViewport(viewport) {
+      await page.setViewport(viewport);
+    },
+
+    async setExtraHeaders(headers) {
+      await page.setExtraHTTPHeaders(headers);
+    },
+
+    async emulateColorScheme(colorScheme) {
+      await page.emulateMediaFeatures([{ name: 'prefers-color-scheme', value: colorScheme }]);
+    },
+
+    async addInitScript(script, ...args) {
+      await page.evaluateOnNewDocument(script, ...args);
+    },
+
+    async interceptRequests(handler) {
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        void (async () => {
+          if (request.isInterceptResolutionHandled()) return;
+          const allowed = await handler({
+            url: request.url(),
+            isNavigation: request.isNavigationRequest() && request.frame() === page.mainFrame(),
+          });
+          await (allowed ? request.continue() : request.abort('blockedbyclient'));
+        })().catch(() => request.abort('blockedbyclient').catch(() => {}));
+      });
+    },
+
+    onResponse(handler) {
+      page.on('response', (response) => {
+        handler({ url: response.url(), remoteAddress: response.remoteAddress().ip });
+      });
+    },
+
+    async goto(url, options) {
+      const response = await page.goto(url, {
+        waitUntil: options.waitUntil === 'networkidle' ? 'networkidle0' : 'load',
+        timeout: options.timeout,
+      });
+      return response && { status: response.status() };
+    },
+
+    async setContent(html) {
+      await page.setContent(html, { waitUntil: 'load' });
+    },
+
+    evaluate<Args extends unknown[], Result>(
+      script: string | ((...args: Args) => Result),
+      ...args: Args
+    ): Promise<Awaited<Result>> {
+      // Arguments are serializable values, never element handles, so Puppeteer's
+      // handle-unwrapping parameter types reduce to `Args`
+      return page.evaluate(script as string | PageFunction<Args, Result>, ...args);
+    },
+
+    async addStyleTag(css) {
+      await page.addStyleTag({ content: css });
+    },
+
+    url() {
+      return page.url();
+    },
+
+    pdf(options) {
+      return page.pdf(options);
+    },
+
+    screenshot(options) {
+      return page.screenshot({ type: 'png', fullPage: options.fullPage });
+    },
+
+    close() {
+      return page.close();
+    },
+  };
+}
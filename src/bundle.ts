@@ -0,0 +1,327 @@
+import { PDFDocument } from 'pdf-lib';
+import type { BundleFailure, BundleOptions, BundlePage, PdfMetadata } from './types.js';
+import {
+  preparePage,
+  reportPhase,
+  type PageSession,
+  type ResolvedPdfExportOptions,
+} from './pipeline.js';
+import { renderPdf } from './pagination.js';
+import { getPageDetails } from './header-footer.js';
+import { escapeHtml } from './utils.js';
+import { toPdfExportError } from './errors.js';
+import type { RenderContext } from './renderer.js';
+import {
+  buildHeadingTree,
+  copyNamedDestinations,
+  writeOutline,
+  type OutlineEntry,
+  type OutlineHeading,
+} from './outline.js';
+
+const defaultBundleOptions: Required<Omit<BundleOptions, 'subtitle'>> = {
+  title: 'Documentation',
+  cover: true,
+  tableOfContents: true,
+  maxPages: 50,
+};
+
+/**
+ * Result of rendering a bundle
+ */
+export interface BundleResult {
+  /**
+   * Merged PDF, or null when every page failed
+   */
+  pdf: Uint8Array | null;
+  title: string;
+
+  /**
+   * Bundle title and subtitle, with author, language and version of the first page
+   */
+  metadata: PdfMetadata;
+  rendered: number;
+  failures: BundleFailure[];
+}
+
+interface RenderedSection {
+  path: string;
+  title: string;
+  pdf: Uint8Array;
+  pageCount: number;
+  headings: OutlineHeading[];
+  metadata: PdfMetadata;
+}
+
+/**
+ * Check whether a request asks for a bundle instead of a single page
+ */
+export function isBundleRequest(searchParams: URLSearchParams) {
+  return searchParams.has('paths') || searchParams.has('prefix');
+}
+
+/**
+ * Resolve the list of pages requested via `?paths=` or `?prefix=`
+ */
+export async function resolveBundlePages(
+  searchParams: URLSearchParams,
+  config: ResolvedPdfExportOptions
+): Promise<BundlePage[]> {
+  const knownPages = config.resolvePages ? await config.resolvePages() : [];
+  const prefix = searchParams.get('prefix');
+
+  if (prefix) {
+    const normalized = prefix.replace(/\/+$/, '');
+    return knownPages.filter(
+      (page) => page.path === normalized || page.path.startsWith(`${normalized}/`)
+    );
+  }
+
+  // Accept both `?paths=/a,/b` and `?paths=/a&paths=/b`
+  const paths = searchParams
+    .getAll('paths')
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return paths.map((path) => knownPages.find((page) => page.path === path) ?? { path });
+}
+
+/**
+ * Merge user bundle options with the defaults
+ */
+export function resolveBundleOptions(bundle: BundleOptions | undefined, title?: string | null) {
+  return {
+    ...defaultBundleOptions,
+    ...bundle,
+    title: title || bundle?.title || defaultBundleOptions.title,
+  };
+}
+
+/**
+ * Render several pages in a single browser context and merge them into one PDF
+ * with an optional cover page and table of contents.
+ * Pages that fail are reported in the result instead of aborting the export.
+ */
+export async function renderBundle(
+  context: RenderContext,
+  pages: BundlePage[],
+  options: {
+    origin: string;
+    session: PageSession;
+    config: ResolvedPdfExportOptions;
+    bundle: ReturnType<typeof resolveBundleOptions>;
+  }
+): Promise<BundleResult> {
+  const { origin, session, config, bundle } = options;
+  const sections: RenderedSection[] = [];
+  const failures: BundleFailure[] = [];
+
+  for (const [index, entry] of pages.entries()) {
+    const page = await context.newPage();
+
+    // Scale each page's progress to its share of the bundle
+    const pageSession: PageSession = {
+      ...session,
+      onProgress: (update) =>
+        session.onProgress?.({
+          phase: update.phase,
+          progress: Math.round((index * 100 + update.progress) / pages.length),
+        }),
+    };
+
+    try {
+      const pageUrl = new URL(entry.path, origin).href;
+      const { headings, metadata } = await preparePage(page, pageUrl, config, pageSession);
+
+      const title = entry.title ?? (await getPageDetails(page, config.contentSelector)).title;
+
+      reportPhase(pageSession, 'rendering');
+      const pdf = await renderPdf(page, config);
+      const pageCount = (await PDFDocument.load(pdf)).getPageCount();
+
+      sections.push({
+        path: entry.path,
+        title: title || entry.path,
+        pdf,
+        pageCount,
+        headings,
+        metadata,
+      });
+    } catch (error) {
+      config.logger({ level: 'error', event: 'bundle-page-failed', path: entry.path, error });
+      const { code, message } = toPdfExportError(error);
+      failures.push({ path: entry.path, code, error: message });
+    } finally {
+      await page.close();
+    }
+  }
+
+  const metadata: PdfMetadata = {
+    title: bundle.title,
+    subject: bundle.subtitle,
+    author: sections[0]?.metadata.author,
+    language: sections[0]?.metadata.language,
+    version: sections[0]?.metadata.version,
+  };
+
+  if (sections.length === 0) {
+    return { pdf: null, title: bundle.title, metadata, rendered: 0, failures };
+  }
+
+  const frontMatter =
+    bundle.cover || bundle.tableOfContents
+      ? await renderFrontMatter(context, sections, failures, config, bundle)
+      : null;
+
+  return {
+    pdf: await mergeBundle(frontMatter, sections, config),
+    title: bundle.title,
+    metadata,
+    rendered: sections.length,
+    failures,
+  };
+}
+
+/**
+ * Render the cover page and table of contents.
+ * Page numbers depend on how many pages the front matter itself takes,
+ * so it is re-rendered until its page count is stable.
+ */
+async function renderFrontMatter(
+  context: RenderContext,
+  sections: RenderedSection[],
+  failures: BundleFailure[],
+  config: ResolvedPdfExportOptions,
+  bundle: ReturnType<typeof resolveBundleOptions>
+) {
+  const page = await context.newPage();
+  try {
+    let frontPageCount = 0;
+    let pdf: Uint8Array = new Uint8Array();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      let nextPage = frontPageCount + 1;
+      const entries = sections.map((section) => {
+        const entry = { title: section.title, pageNumber: nextPage };
+        nextPage += section.pageCount;
+        return entry;
+      });
+
+      await page.setContent(buildFrontMatterHtml(entries, failures, bundle));
+      pdf = await page.pdf({
+        format: config.paperFormat,
+        landscape: config.orientation === 'landscape',
+        printBackground: true,
+        margin: config.margins,
+      });
+
+      const pageCount = (await PDFDocument.load(pdf)).getPageCount();
+      if (pageCount === frontPageCount) break;
+      frontPageCount = pageCount;
+    }
+
+    return pdf;
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Build the HTML for the cover page and table of contents
+ */
+function buildFrontMatterHtml(
+  entries: { title: string; pageNumber: number }[],
+  failures: BundleFailure[],
+  bundle: ReturnType<typeof resolveBundleOptions>
+) {
+  const cover = bundle.cover
+    ? `<section class="cover">
+        <h1>${escapeHtml(bundle.title)}</h1>
+        ${bundle.subtitle ? `<p class="subtitle">${escapeHtml(bundle.subtitle)}</p>` : ''}
+        <p class="date">${escapeHtml(new Date().toLocaleDateString('en-US', { dateStyle: 'long' }))}</p>
+      </section>`
+    : '';
+
+  const toc = bundle.tableOfContents
+    ? `<section class="toc">
+        <h2>Contents</h2>
+        <ol>
+          ${entries
+            .map(
+              (entry) =>
+                `<li><span class="title">${escapeHtml(entry.title)}</span><span class="page">${entry.pageNumber}</span></li>`
+            )
+            .join('')}
+        </ol>
+        ${
+          failures.length > 0
+            ? `<h3>Pages that could not be exported</h3>
+               <ul class="failures">${failures.map((failure) => `<li>${escapeHtml(failure.path)}</li>`).join('')}</ul>`
+            : ''
+        }
+      </section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111; margin: 0; }
+      .cover { height: 90vh; display: flex; flex-direction: column; justify-content: center; break-after: page; }
+      .cover h1 { font-size: 36px; margin: 0 0 12px; }
+      .cover .subtitle { font-size: 18px; color: #444; margin: 0 0 24px; }
+      .cover .date { font-size: 14px; color: #666; margin: 0; }
+      .toc h2 { font-size: 24px; margin: 0 0 16px; }
+      .toc ol { list-style: none; padding: 0; margin: 0; }
+      .toc li { display: flex; gap: 8px; font-size: 14px; padding: 4px 0; break-inside: avoid; }
+      .toc .title { flex: 1; overflow: hidden; white-space: nowrap; }
+      .toc .title::after { content: ' ........................................................................................................................................................'; color: #999; }
+      .toc .page { flex: none; }
+      .toc h3 { font-size: 16px; margin: 24px 0 8px; }
+      .failures { font-size: 13px; color: #a00; }
+    </style>
+  </head>
+  <body>${cover}${toc}</body>
+</html>`;
+}
+
+/**
+ * Concatenate the front matter and rendered sections in order.
+ * Named destinations are carried over so in-page links keep working,
+ * and each section becomes a top-level outline entry with its headings below it.
+ */
+async function mergeBundle(
+  frontMatter: Uint8Array | null,
+  sections: RenderedSection[],
+  config: ResolvedPdfExportOptions
+) {
+  const merged = await PDFDocument.create();
+
+  if (frontMatter) {
+    const source = await PDFDocument.load(frontMatter);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+
+  const outline: OutlineEntry[] = [];
+  for (const [index, section] of sections.entries()) {
+    const source = await PDFDocument.load(section.pdf);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+
+    const dests = copyNamedDestinations(merged, source, pages, `s${index + 1}-`);
+    outline.push({
+      title: section.title,
+      dest: merged.context.obj([pages[0]!.ref, 'Fit']),
+      children: buildHeadingTree(section.headings, dests),
+    });
+  }
+
+  if (config.outline) {
+    writeOutline(merged, outline);
+  }
+
+  return merged.save();
+}
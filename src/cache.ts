@@ -0,0 +1,333 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CachedPdf, PdfCacheOptions, PdfCacheStore } from './types.js';
+import type { RenderPage } from './renderer.js';
+import type { ResolvedPdfExportOptions } from './pipeline.js';
+import { matchesPathPrefix } from './security.js';
+
+/**
+ * Rendered-PDF cache with pluggable storage
+ */
+export interface PdfCache {
+  readonly store: PdfCacheStore;
+
+  /**
+   * Compute the cache key for a request.
+   * `final` is false when the key still needs the page content hash (see `withContentHash`).
+   */
+  resolveKey(input: {
+    request: Request;
+    paths: string[];
+    options: unknown;
+  }): Promise<{ key: string; final: boolean }>;
+
+  /**
+   * Complete a key with the hash of the cleaned page HTML
+   */
+  withContentHash(key: string, contentHash: string): string;
+
+  get(key: string): Promise<CachedPdf | undefined>;
+  set(key: string, entry: CachedPdf): Promise<void>;
+
+  /**
+   * Remove every cached PDF that includes a page under the given path prefix
+   * @returns Number of entries removed
+   */
+  invalidate(pathPrefix: string): Promise<number>;
+}
+
+/**
+ * Create a PDF cache that can be shared across handlers and invalidated after a deploy
+ *
+ * @example
+ * // lib/pdf-cache.ts
+ * export const pdfCache = createPdfCache({ store: createFileSystemCacheStore('.cache/pdf') });
+ *
+ * // app/api/export-pdf/route.ts
+ * export const GET = createPdfExportHandler({ cache: pdfCache });
+ *
+ * // After a content deploy
+ * await pdfCache.invalidate('/docs/guides');
+ */
+export function createPdfCache(options: PdfCacheOptions = {}): PdfCache {
+  const store = options.store ?? createMemoryCacheStore();
+  const fingerprint = options.fingerprint ?? 'build-id';
+  const varyByCookies = options.varyByCookies ?? true;
+  const ttl = options.ttl ?? 0;
+
+  return {
+    store,
+
+    async resolveKey({ request, paths, options: resolvedOptions }) {
+      let version: string | null = null;
+      if (typeof fingerprint === 'function') {
+        version = await fingerprint(request);
+      } else if (fingerprint === 'build-id') {
+        version = await readBuildId();
+      }
+
+      const cookieHeader = request.headers.get('cookie') || '';
+      const cookies = varyByCookies
+        ? cookieHeader
+            .split(';')
+            .map((cookie) => cookie.trim())
+            .filter((cookie) =>
+              varyByCookies === true ? cookie : varyByCookies.includes(cookie.split('=')[0]!)
+            )
+            .sort()
+        : [];
+
+      const key = hash(JSON.stringify({ paths, options: resolvedOptions, version, cookies }));
+      return { key, final: version !== null };
+    },
+
+    withContentHash(key, contentHash) {
+      return hash(`${key}:${contentHash}`);
+    },
+
+    async get(key) {
+      const entry = await store.get(key);
+      if (entry && ttl > 0 && Date.now() - entry.lastModified > ttl) {
+        await store.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      await store.set(key, entry);
+    },
+
+    async invalidate(pathPrefix) {
+      return store.invalidate(pathPrefix);
+    },
+  };
+}
+
+// Options that change the rendered output; the rest (renderer, queue, cache, security)
+// only decide how and whether a page is rendered
+const renderingOptionKeys = [
+  'contentSelector',
+  'removeSelectors',
+  'expandAccordions',
+  'accordionTriggerSelectors',
+  'accordionContentSelectors',
+  'expandTabs',
+  'tabContainerSelectors',
+  'tabTriggerSelectors',
+  'tabPanelSelectors',
+  'triggerLazyImages',
+  'includeImages',
+  'includeSubsections',
+  'section',
+  'colorScheme',
+  'themeAttribute',
+  'themeStorageKey',
+  'layout',
+  'format',
+  'paperFormat',
+  'orientation',
+  'pageWidth',
+  'margins',
+  'scale',
+  'accessibility',
+  'pdfA',
+  'headerTemplate',
+  'footerTemplate',
+  'headerFooterHeight',
+  'docVersion',
+  'metadata',
+  'outline',
+  'internalLinks',
+  'readiness',
+  'fitting',
+  'beforePdfGeneration',
+] as const satisfies readonly (keyof ResolvedPdfExportOptions)[];
+
+/**
+ * The configuration a cache key depends on: the options that change the output and the
+ * source of the browser transforms. Functions (Node-side hooks, a `metadata` callback)
+ * cannot be compared; change the fingerprint or invalidate the cache when they change.
+ */
+export function renderingOptions(config: ResolvedPdfExportOptions) {
+  return {
+    ...Object.fromEntries(renderingOptionKeys.map((key) => [key, config[key]])),
+    transforms: config.hooks?.transforms?.map(({ script, args }) => [String(script), args]),
+  };
+}
+
+/**
+ * Check whether a value is a cache rather than cache options
+ */
+export function isPdfCache(value: PdfCache | PdfCacheOptions): value is PdfCache {
+  return typeof (value as PdfCache).resolveKey === 'function';
+}
+
+/**
+ * Hash the cleaned page so content changes produce a new cache key
+ */
+export async function hashPageContent(page: RenderPage) {
+  return hash(await page.evaluate(() => document.documentElement.outerHTML));
+}
+
+/**
+ * Entity tag for a cache key
+ */
+export function toEtag(key: string) {
+  return `"${key}"`;
+}
+
+/**
+ * Check an `If-None-Match` header against an entity tag
+ */
+export function matchesEtag(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .map((value) => value.trim().replace(/^W\//, ''))
+    .some((value) => value === '*' || value === etag);
+}
+
+/**
+ * In-memory LRU store
+ */
+export function createMemoryCacheStore(
+  options: { maxEntries?: number; maxBytes?: number } = {}
+): PdfCacheStore {
+  const maxEntries = options.maxEntries ?? 50;
+  const maxBytes = options.maxBytes ?? 100 * 1024 * 1024;
+  const entries = new Map<string, CachedPdf>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    totalBytes -= entry.body.byteLength;
+    entries.delete(key);
+    return true;
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move to the end so it is evicted last
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    set(key, entry) {
+      remove(key);
+      if (entry.body.byteLength > maxBytes) return;
+
+      entries.set(key, entry);
+      totalBytes += entry.body.byteLength;
+
+      // Evict least recently used entries
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+
+    delete(key) {
+      remove(key);
+    },
+
+    invalidate(pathPrefix) {
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (includesPathPrefix(entry.paths, pathPrefix) && remove(key)) removed++;
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Filesystem store: each entry is a `.pdf` file with a `.json` metadata sidecar
+ */
+export function createFileSystemCacheStore(directory: string): PdfCacheStore {
+  const pdfPath = (key: string) => join(directory, `${key}.pdf`);
+  const metaPath = (key: string) => join(directory, `${key}.json`);
+
+  const remove = async (key: string) => {
+    await Promise.all([rm(pdfPath(key), { force: true }), rm(metaPath(key), { force: true })]);
+  };
+
+  return {
+    async get(key) {
+      try {
+        const [meta, body] = await Promise.all([
+          readFile(metaPath(key), 'utf8'),
+          readFile(pdfPath(key)),
+        ]);
+        return { ...(JSON.parse(meta) as Omit<CachedPdf, 'body'>), body: new Uint8Array(body) };
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set(key, entry) {
+      const { body, ...meta } = entry;
+      await mkdir(directory, { recursive: true });
+      await writeFile(pdfPath(key), body);
+      await writeFile(metaPath(key), JSON.stringify(meta));
+    },
+
+    delete(key) {
+      return remove(key);
+    },
+
+    async invalidate(pathPrefix) {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch {
+        return 0;
+      }
+
+      let removed = 0;
+      for (const file of files.filter((name) => name.endsWith('.json'))) {
+        const key = file.slice(0, -'.json'.length);
+        try {
+          const meta: Pick<CachedPdf, 'paths'> = JSON.parse(await readFile(metaPath(key), 'utf8'));
+          if (includesPathPrefix(meta.paths, pathPrefix)) {
+            await remove(key);
+            removed++;
+          }
+        } catch {
+          // Ignore entries removed concurrently or with unreadable metadata
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Check whether any cached page is under the prefix, by path segment: `/docs` covers
+ * `/docs/a` but not `/docs-internal`
+ */
+function includesPathPrefix(paths: string[], pathPrefix: string) {
+  return paths.some((path) => matchesPathPrefix(path.split(/[?#]/)[0]!, [pathPrefix]));
+}
+
+let buildIdPromise: Promise<string | null> | undefined;
+
+/**
+ * Read the Next.js build ID, or null when running without a production build
+ */
+function readBuildId() {
+  buildIdPromise ??= readFile(join(process.cwd(), '.next', 'BUILD_ID'), 'utf8')
+    .then((id) => id.trim() || null)
+    .catch(() => null);
+  return buildIdPromise;
+}
+
+function hash(value: string) {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { PdfExportOptions, PresetName } from './types.js';
+import { presets } from './types.js';
+import { exportStaticPdfs, hasFailures } from './static-export.js';
+
+const usage = `Usage: fumadocs-pdf-export build [options]
+
+Render documentation pages of a running server to PDF files.
+
+Options:
+  --url <origin>          Server to render from (default: baseUrl from the config)
+  --sitemap <source>      sitemap.xml URL, path on the server or local file
+  --paths <paths>         Comma-separated page paths
+  --paths-file <file>     File with one page path per line
+  --config <file>         Module whose default export is the export options or a preset name
+  --preset <name>         Preset to use instead of a config file (${Object.keys(presets).join(', ')})
+  --out <dir>             Output directory (default: pdf-export)
+  --concurrency <n>       Pages rendered in parallel (default: 2)
+  --bundle                Also write every page into bundle.pdf
+  --bundle-title <title>  Cover title of bundle.pdf
+  -h, --help              Show this help
+
+Exits with code 1 when any page fails to export.`;
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      sitemap: { type: 'string' },
+      paths: { type: 'string' },
+      'paths-file': { type: 'string' },
+      config: { type: 'string' },
+      preset: { type: 'string' },
+      out: { type: 'string' },
+      concurrency: { type: 'string' },
+      bundle: { type: 'boolean' },
+      'bundle-title': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  if (positionals[0] !== 'build') {
+    console.error(usage);
+    return 2;
+  }
+
+  const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    console.error('--concurrency must be a positive integer');
+    return 2;
+  }
+
+  const paths = [
+    ...(values.paths?.split(',') ?? []),
+    ...(values['paths-file'] ? (await readFile(values['paths-file'], 'utf8')).split(/\r?\n/) : []),
+  ];
+
+  const options = await loadOptions(values.config, values.preset);
+  const bundleTitle = values['bundle-title'];
+
+  const manifest = await exportStaticPdfs({
+    url: values.url,
+    sitemap: values.sitemap,
+    paths,
+    outDir: values.out,
+    concurrency,
+    bundle: values.bundle ? (bundleTitle ? { title: bundleTitle } : true) : false,
+    options,
+    onPage: (entry) => {
+      if (entry.error) {
+        console.error(`  failed  ${entry.path}: ${entry.error}`);
+      } else {
+        const size = `${Math.round((entry.bytes ?? 0) / 1024)} KB`;
+        console.log(`  ok      ${entry.path} (${size}, ${(entry.durationMs / 1000).toFixed(1)}s)`);
+      }
+    },
+  });
+
+  if (manifest.bundle) {
+    if (manifest.bundle.error) {
+      console.error(`  failed  bundle.pdf: ${manifest.bundle.error}`);
+    } else {
+      console.log(`  ok      bundle.pdf (${Math.round((manifest.bundle.bytes ?? 0) / 1024)} KB)`);
+    }
+  }
+
+  console.log(
+    `\nExported ${manifest.pages.length} page(s), ${manifest.failures.length} failed, ` +
+      `in ${(manifest.durationMs / 1000).toFixed(1)}s`
+  );
+
+  return hasFailures(manifest) ? 1 : 0;
+}
+
+/**
+ * Load export options from a config module or a preset name
+ */
+async function loadOptions(
+  configFile: string | undefined,
+  preset: string | undefined
+): Promise<PdfExportOptions | PresetName | undefined> {
+  if (preset) {
+    if (!(preset in presets)) {
+      throw new Error(`Unknown preset "${preset}"`);
+    }
+    return preset as PresetName;
+  }
+
+  if (!configFile) return undefined;
+
+  const module = (await import(pathToFileURL(resolve(configFile)).href)) as {
+    default?: PdfExportOptions | PresetName;
+  };
+  return module.default;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
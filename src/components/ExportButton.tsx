@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import type { ExportButtonProps } from '../types.js';
+import { fromErrorBody, PdfExportError } from '../errors.js';
 
 /**
  * Button component that triggers PDF export of the current page
@@ -22,20 +23,59 @@ import type { ExportButtonProps } from '../types.js';
  *   onExportStart={() => console.log('Starting...')}
  *   onExportSuccess={() => toast.success('PDF downloaded!')}
  *   onExportError={(err) => toast.error(err.message)}
+ *   onExportRetry={(attempt) => toast.info(`Server busy, retrying (${attempt})...`)}
  * />
+ *
+ * @example
+ * // Ink-saving export regardless of the server default
+ * <ExportButton colorScheme="print" />
+ *
+ * @example
+ * // Asynchronous export job with progress (requires createPdfExportJobHandler)
+ * <ExportButton mode="async" onExportProgress={({ progress }) => setProgress(progress)} />
+ *
+ * @example
+ * // Let the user pick the format in a select next to the button
+ * <ExportButton formats={['pdf', 'epub', 'html', 'png']} />
+ *
+ * @example
+ * // Landscape Letter pages (the handler must list them in allowRequestOverrides)
+ * <ExportButton overrides={{ layout: 'paginated', paperFormat: 'Letter', orientation: 'landscape' }} />
  */
 export function ExportButton({
   apiPath = '/api/export-pdf',
   className,
+  selectClassName,
   children,
-  title = 'Export as PDF',
+  title,
   onExportStart,
   onExportSuccess,
   onExportError,
+  onExportRetry,
+  onExportProgress,
+  maxRetries = 3,
+  mode = 'sync',
+  jobsApiPath = `${apiPath}/jobs`,
+  pollInterval = 1000,
+  colorScheme,
+  format,
+  formats,
+  overrides,
+  section,
+  sectionFromHash,
   filename,
   disabled,
 }: ExportButtonProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState(() =>
+    format && formats?.includes(format) ? format : formats?.[0]
+  );
+
+  const hasChoice = !!formats && formats.length > 1;
+  const activeFormat = formats && formats.length > 0 ? selectedFormat : format;
+  const formatLabel = (activeFormat ?? 'pdf').toUpperCase();
 
   const handleExport = useCallback(async () => {
     if (isLoading || disabled) return;
@@ -45,20 +85,72 @@ export function ExportButton({
 
     try {
       const currentPath = window.location.pathname;
-      const response = await fetch(`${apiPath}?path=${encodeURIComponent(currentPath)}`);
+      const params = new URLSearchParams({ path: currentPath });
+      for (const [name, value] of Object.entries(overrides ?? {})) {
+        if (value !== undefined) params.set(name, String(value));
+      }
+      if (colorScheme) params.set('colorScheme', colorScheme);
+      if (activeFormat) params.set('format', activeFormat);
+      const exportedSection =
+        section ?? (sectionFromHash ? decodeURIComponent(window.location.hash.slice(1)) : '');
+      if (exportedSection) params.set('section', exportedSection);
+      const query = `?${params}`;
+      const retry = {
+        maxRetries,
+        onRetry: (attempt: number, delay: number) => {
+          setIsRetrying(true);
+          onExportRetry?.(attempt, delay);
+        },
+      };
+
+      let response: Response;
+      if (mode === 'async') {
+        const created = await fetchWithRetry(`${jobsApiPath}${query}`, { method: 'POST' }, retry);
+        setIsRetrying(false);
+        if (!created.ok) {
+          const body = await created.json().catch(() => null);
+          throw fromErrorBody(body, created.status, 'Failed to start PDF export');
+        }
+
+        // Poll the job until it finishes
+        let job = await created.json();
+        while (job.status !== 'done' && job.status !== 'failed') {
+          await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          const status = await fetch(job.statusUrl);
+          if (!status.ok) {
+            const body = await status.json().catch(() => null);
+            throw fromErrorBody(body, status.status, 'Failed to check PDF export status');
+          }
+          job = await status.json();
+          setProgress(job.progress);
+          onExportProgress?.({ phase: job.phase, progress: job.progress });
+        }
+
+        if (job.status === 'failed') {
+          throw fromErrorBody({ error: job.error, code: job.code });
+        }
+        response = await fetch(job.downloadUrl);
+      } else {
+        response = await fetchWithRetry(`${apiPath}${query}`, {}, retry);
+        setIsRetrying(false);
+      }
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.details || 'Failed to generate PDF');
+        throw fromErrorBody(await response.json().catch(() => null), response.status);
       }
 
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
+      const serverFilename = getResponseFilename(response);
+      const extension = activeFormat ?? serverFilename?.split('.').pop() ?? 'pdf';
       a.download = filename
-        ? `${filename}.pdf`
-        : `${currentPath.replace(/\//g, '-').replace(/^-/, '') || 'document'}.pdf`;
+        ? `${filename}.${extension}`
+        : (serverFilename ??
+          `${[currentPath.replace(/\//g, '-').replace(/^-/, '') || 'document', exportedSection]
+            .filter(Boolean)
+            .join('-')}.${extension}`);
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -66,33 +158,147 @@ export function ExportButton({
 
       onExportSuccess?.();
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      // Anything but an error response means the endpoint could not be reached
+      const err =
+        error instanceof PdfExportError
+          ? error
+          : new PdfExportError('network-error', 'Could not reach the PDF export service', {
+              cause: error,
+            });
       console.error('[PDF Export] Error:', err);
       onExportError?.(err);
     } finally {
       setIsLoading(false);
+      setIsRetrying(false);
+      setProgress(null);
     }
-  }, [apiPath, filename, isLoading, disabled, onExportStart, onExportSuccess, onExportError]);
+  }, [
+    apiPath,
+    jobsApiPath,
+    mode,
+    pollInterval,
+    colorScheme,
+    activeFormat,
+    overrides,
+    section,
+    sectionFromHash,
+    filename,
+    isLoading,
+    disabled,
+    maxRetries,
+    onExportStart,
+    onExportSuccess,
+    onExportError,
+    onExportRetry,
+    onExportProgress,
+  ]);
 
-  return (
+  const button = (
     <button
       onClick={handleExport}
       disabled={isLoading || disabled}
       className={className}
-      title={title}
+      title={
+        title ??
+        (section || sectionFromHash
+          ? `Export this section as ${formatLabel}`
+          : `Export as ${formatLabel}`)
+      }
       aria-busy={isLoading}
     >
-      {children ?? (isLoading ? 'Generating...' : 'Export PDF')}
+      {children ??
+        (isRetrying
+          ? 'Server busy, retrying...'
+          : isLoading
+            ? `Generating...${progress !== null ? ` ${progress}%` : ''}`
+            : `Export ${formatLabel}`)}
     </button>
   );
+
+  if (!hasChoice) return button;
+
+  return (
+    <>
+      <select
+        value={selectedFormat}
+        onChange={(event) => setSelectedFormat(event.target.value as typeof selectedFormat)}
+        disabled={isLoading || disabled}
+        className={selectClassName}
+        aria-label="Export format"
+      >
+        {formats.map((option) => (
+          <option key={option} value={option}>
+            {option.toUpperCase()}
+          </option>
+        ))}
+      </select>
+      {button}
+    </>
+  );
+}
+
+/**
+ * Small button that exports one section of the page, to place next to a heading.
+ * Without `section` it exports the section in `location.hash` when clicked.
+ *
+ * @example
+ * <h2 id="authentication">
+ *   Authentication <SectionExportButton section="authentication" className="ml-2" />
+ * </h2>
+ */
+export function SectionExportButton(props: ExportButtonProps) {
+  return <ExportButton sectionFromHash={props.section === undefined} {...props} />;
+}
+
+/**
+ * Fetch, retrying with backoff while the server is busy (429) or the queue timed out (503)
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  retry: { maxRetries: number; onRetry: (attempt: number, delay: number) => void }
+) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, init);
+    if ((response.status !== 429 && response.status !== 503) || attempt >= retry.maxRetries) {
+      return response;
+    }
+
+    const delay = getRetryDelay(response, attempt);
+    retry.onRetry(attempt + 1, delay);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Delay before the next retry: the server's `Retry-After` or exponential backoff, whichever is longer
+ */
+function getRetryDelay(response: Response, attempt: number) {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const backoff = Math.min(1000 * 2 ** attempt, 30000);
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? Math.max(retryAfter * 1000, backoff)
+    : backoff;
+}
+
+/**
+ * Filename the server chose in `Content-Disposition`, derived from the document title
+ */
+function getResponseFilename(response: Response) {
+  const disposition = response.headers.get('Content-Disposition');
+  return disposition?.match(/filename="([^"]+)"/)?.[1];
 }
 
 /**
  * Pre-styled ExportButton for Fumadocs projects
  * Uses Fumadocs CSS variables for consistent styling
  */
-export function FumadocsExportButton(props: Omit<ExportButtonProps, 'className' | 'children'>) {
+export function FumadocsExportButton(
+  props: Omit<ExportButtonProps, 'className' | 'selectClassName' | 'children'>
+) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
 
   return (
     <ExportButton
@@ -103,23 +309,41 @@ export function FumadocsExportButton(props: Omit<ExportButtonProps, 'className'
       }}
       onExportSuccess={() => {
         setIsLoading(false);
+        setIsRetrying(false);
+        setProgress(null);
         props.onExportSuccess?.();
       }}
       onExportError={(err) => {
         setIsLoading(false);
+        setIsRetrying(false);
+        setProgress(null);
         props.onExportError?.(err);
       }}
+      onExportRetry={(attempt, delay) => {
+        setIsRetrying(true);
+        props.onExportRetry?.(attempt, delay);
+      }}
+      onExportProgress={(update) => {
+        setIsRetrying(false);
+        setProgress(update.progress);
+        props.onExportProgress?.(update);
+      }}
       className="inline-flex items-center gap-2 rounded-md border border-fd-border bg-fd-background px-3 py-1.5 text-sm text-fd-muted-foreground hover:bg-fd-accent hover:text-fd-accent-foreground transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      selectClassName="rounded-md border border-fd-border bg-fd-background px-2 py-1.5 text-sm text-fd-muted-foreground disabled:opacity-50"
     >
       {isLoading ? (
         <>
           <LoadingSpinner />
-          Generating...
+          {isRetrying
+            ? 'Server busy, retrying...'
+            : `Generating...${progress !== null ? ` ${progress}%` : ''}`}
         </>
       ) : (
         <>
           <PrinterIcon />
-          Export PDF
+          {props.formats && props.formats.length > 1
+            ? 'Export'
+            : `Export ${(props.format ?? props.formats?.[0] ?? 'pdf').toUpperCase()}`}
         </>
       )}
     </ExportButton>
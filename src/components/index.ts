@@ -1 +1,3 @@
-export { ExportButton, FumadocsExportButton } from './ExportButton.js';
+export { ExportButton, FumadocsExportButton, SectionExportButton } from './ExportButton.js';
+export { PdfExportError } from '../errors.js';
+export type { PdfExportErrorCode } from '../errors.js';
@@ -0,0 +1,208 @@
+import type {
+  AccessibilityIssue,
+  ExportPdfInput,
+  ExportPdfResult,
+  OutputFormat,
+  PdfMetadata,
+} from './types.js';
+import {
+  parseCookies,
+  preparePage,
+  reportPhase,
+  resolveOptions,
+  type PageSession,
+  type ResolvedPdfExportOptions,
+} from './pipeline.js';
+import { renderPdf } from './pagination.js';
+import { addOutline } from './outline.js';
+import { resolveMetadata, writeMetadata } from './metadata.js';
+import { resolveWatermark } from './watermark.js';
+import { createEpub, formatContentTypes, serializePage } from './formats.js';
+import { runAfterPdf, runRequestHook } from './hooks.js';
+import { checkStructureTree } from './accessibility.js';
+import { PdfExportError, toPdfExportError } from './errors.js';
+import { countPdfPages, createMetricsRecorder } from './metrics.js';
+import { createBrowserPool, isBrowserPool } from './browser-pool.js';
+import type { RenderPage, Renderer } from './renderer.js';
+import { requestPolicy, resolvePageUrl } from './security.js';
+import { slugify } from './utils.js';
+
+/**
+ * Export a single page to PDF (or the `format` option's format), independent of any web framework.
+ * The HTTP handlers are thin adapters around the same pipeline.
+ *
+ * Without a `renderer` or shared `browserPool` in the options, a browser is
+ * launched for this export and closed afterwards.
+ *
+ * @example
+ * const { pdf, filename } = await exportPdf({
+ *   url: 'http://localhost:3000/docs/getting-started',
+ *   cookies: request.headers.cookie,
+ *   options: 'docusaurus',
+ * });
+ * await writeFile(`${filename}.pdf`, pdf);
+ */
+export async function exportPdf(input: ExportPdfInput): Promise<ExportPdfResult> {
+  const url = new URL(input.url);
+  const request = input.request ?? new Request(url);
+
+  const hooked = await runRequestHook(resolveOptions(input.options), request);
+  if (hooked instanceof Response) {
+    throw new PdfExportError('request-rejected', 'Export rejected by onRequest', {
+      status: hooked.status,
+    });
+  }
+  const config = hooked;
+
+  const pageUrl = resolvePageUrl(
+    `${url.pathname}${url.search}`,
+    url.origin,
+    config.allowedPathPrefixes
+  );
+
+  const metrics = createMetricsRecorder();
+  metrics.set({ paths: [url.pathname], format: config.format });
+
+  const session: PageSession = {
+    request,
+    cookies: parseCookies(
+      toCookieHeader(input.cookies),
+      url.hostname,
+      url.protocol === 'https:',
+      url.origin
+    ),
+    policy: requestPolicy(url.origin, config),
+    onProgress: input.onProgress,
+    colorScheme: config.colorScheme,
+    watermark: await resolveWatermark(config.watermark, request),
+    metrics,
+  };
+
+  const shared =
+    config.renderer ??
+    (config.browserPool && isBrowserPool(config.browserPool) ? config.browserPool : null);
+  const renderer: Renderer =
+    shared ??
+    createBrowserPool({
+      size: 1,
+      launchOptions: config.puppeteerOptions,
+      logger: config.logger,
+      ...config.browserPool,
+    });
+
+  try {
+    metrics.enter('queued');
+    const { body, metadata, readiness, accessibility } = await renderer.run(async (context) => {
+      const page = await context.newPage();
+      const prepared = await preparePage(page, pageUrl, config, session);
+      reportPhase(session, 'rendering');
+      const output = await renderOutput(page, prepared, config, request, config.format);
+      return { ...output, readiness: prepared.readiness };
+    });
+
+    metrics.set({
+      bytes: body.byteLength,
+      pageCount: config.format === 'pdf' ? await countPdfPages(body) : undefined,
+    });
+    metrics.report(config, 200);
+
+    return {
+      pdf: body,
+      format: config.format,
+      contentType: formatContentTypes[config.format],
+      metadata,
+      readiness,
+      accessibility,
+      filename: toFilename(metadata.title, url.pathname, config.section),
+    };
+  } catch (error) {
+    metrics.fail(error);
+    metrics.report(config, toPdfExportError(error).status);
+    throw error;
+  } finally {
+    if (!shared) await renderer.close();
+  }
+}
+
+/**
+ * Produce the export of a prepared page in the given format.
+ * Only PDFs pass through the `afterPdf` hook and the structure tree check.
+ */
+export async function renderOutput(
+  page: RenderPage,
+  prepared: Awaited<ReturnType<typeof preparePage>>,
+  config: ResolvedPdfExportOptions,
+  request: Request,
+  format: OutputFormat
+): Promise<{ body: Uint8Array; metadata: PdfMetadata; accessibility?: AccessibilityIssue[] }> {
+  if (format === 'pdf') {
+    const { pdf, metadata, accessibility } = await printPage(page, prepared, config, request);
+    return { body: pdf, metadata, accessibility };
+  }
+
+  const metadata = await resolveMetadata(config.metadata, prepared.metadata, request);
+  const { accessibility } = prepared;
+  switch (format) {
+    case 'png':
+      return { body: await page.screenshot({ fullPage: true }), metadata, accessibility };
+    case 'html':
+      return {
+        body: new TextEncoder().encode(await serializePage(page)),
+        metadata,
+        accessibility,
+      };
+    case 'epub':
+      return { body: await createEpub(page, metadata, prepared.headings), metadata, accessibility };
+  }
+}
+
+/**
+ * Print a prepared page, then add its outline and metadata
+ */
+export async function printPage(
+  page: RenderPage,
+  prepared: Awaited<ReturnType<typeof preparePage>>,
+  config: ResolvedPdfExportOptions,
+  request: Request
+): Promise<{ pdf: Uint8Array; metadata: PdfMetadata; accessibility?: AccessibilityIssue[] }> {
+  const metadata = await resolveMetadata(config.metadata, prepared.metadata, request);
+  const pdf = await addOutline(await renderPdf(page, config), prepared.headings);
+  const accessibility = prepared.accessibility && [
+    ...prepared.accessibility,
+    ...(await checkStructureTree(pdf)),
+  ];
+  return { pdf: await finishPdf(pdf, metadata, config, request), metadata, accessibility };
+}
+
+/**
+ * Write the metadata into a rendered PDF and run the `afterPdf` hook
+ */
+export async function finishPdf(
+  pdf: Uint8Array,
+  metadata: PdfMetadata,
+  config: ResolvedPdfExportOptions,
+  request: Request
+) {
+  return runAfterPdf(config, await writeMetadata(pdf, metadata, { pdfA: config.pdfA }), {
+    request,
+    metadata,
+  });
+}
+
+/**
+ * Download name without extension: the slugified title, or the page path,
+ * followed by the section slug for a section export
+ */
+export function toFilename(title: string | undefined, path: string, section?: string) {
+  const name = slugify(title ?? '') || path.replace(/\//g, '-').replace(/^-/, '') || 'document';
+  const sectionSlug = slugify(section ?? '');
+  return sectionSlug ? `${name}-${sectionSlug}` : name;
+}
+
+function toCookieHeader(cookies: ExportPdfInput['cookies']) {
+  if (!cookies) return '';
+  if (typeof cookies === 'string') return cookies;
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+}
@@ -0,0 +1,65 @@
+import type { DebugReport, DebugStage } from './types.js';
+import type { preparePage } from './pipeline.js';
+import type { RenderPage } from './renderer.js';
+import { PdfExportError, toPdfExportError } from './errors.js';
+
+const debugModes = ['report', 'preview'] as const;
+
+export type DebugMode = (typeof debugModes)[number];
+
+/**
+ * Read the `?debug=` query parameter; an empty value means `report`.
+ * Throws an `invalid-request` error for an unknown mode.
+ */
+export function parseDebugMode(value: string): DebugMode {
+  if (value === '') return 'report';
+  if ((debugModes as readonly string[]).includes(value)) return value as DebugMode;
+  throw new PdfExportError(
+    'invalid-request',
+    `Invalid debug parameter "${value}": expected ${debugModes.join(' or ')}`
+  );
+}
+
+/**
+ * Start a debug report; the pipeline fills it in as it runs
+ */
+export function createDebugReport(url: string): DebugReport {
+  return { url, readiness: [], stages: [] };
+}
+
+/**
+ * Add a full-page screenshot of the current state of the page to the report
+ */
+export async function captureStage(page: RenderPage, report: DebugReport, stage: DebugStage) {
+  const screenshot = Buffer.from(await page.screenshot({ fullPage: true })).toString('base64');
+  report.stages.push({ stage, screenshot: `data:image/png;base64,${screenshot}` });
+}
+
+/**
+ * Complete the report with what the pipeline prepared, or with the error that stopped it
+ */
+export async function finishDebugReport(
+  page: RenderPage,
+  report: DebugReport,
+  outcome: { prepared: Awaited<ReturnType<typeof preparePage>> } | { error: unknown }
+): Promise<DebugReport> {
+  if ('error' in outcome) {
+    const { code, message } = toPdfExportError(outcome.error);
+    return { ...report, error: { code, message } };
+  }
+
+  const { headings, metadata, accessibility } = outcome.prepared;
+  const { contentHeight, html } = await page.evaluate(() => ({
+    contentHeight: document.body.firstElementChild?.getBoundingClientRect().height ?? 0,
+    html: document.documentElement.outerHTML,
+  }));
+
+  return {
+    ...report,
+    contentHeight: Math.round(contentHeight),
+    headings,
+    metadata,
+    accessibility,
+    html,
+  };
+}
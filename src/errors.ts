@@ -0,0 +1,112 @@
+/**
+ * Stable code identifying why an export failed, returned as `code` in error responses
+ * - `invalid-request`: missing or malformed parameters (400)
+ * - `forbidden`: the origin or path may not be exported (403)
+ * - `request-rejected`: the `onRequest` hook answered the request itself
+ * - `page-not-found`: the page responded 404
+ * - `page-unauthorized`: the page responded 401 or 403, e.g. without a valid session
+ * - `page-error`: the page responded with another error status or could not be reached (502)
+ * - `navigation-timeout`: the page did not finish loading within `timeout` (504)
+ * - `content-not-found`: nothing on the page matches `contentSelector` (422)
+ * - `browser-launch-failed`: the headless browser could not be started (503)
+ * - `busy`: the render queue is full or timed out (429 or 503)
+ * - `render-failed`: any other failure while rendering (500)
+ * - `network-error`: the export endpoint could not be reached (client only)
+ */
+export type PdfExportErrorCode =
+  | 'invalid-request'
+  | 'forbidden'
+  | 'request-rejected'
+  | 'page-not-found'
+  | 'page-unauthorized'
+  | 'page-error'
+  | 'navigation-timeout'
+  | 'content-not-found'
+  | 'browser-launch-failed'
+  | 'busy'
+  | 'render-failed'
+  | 'network-error';
+
+const errorStatus: Record<PdfExportErrorCode, number> = {
+  'invalid-request': 400,
+  forbidden: 403,
+  'request-rejected': 403,
+  'page-not-found': 404,
+  'page-unauthorized': 401,
+  'page-error': 502,
+  'navigation-timeout': 504,
+  'content-not-found': 422,
+  'browser-launch-failed': 503,
+  busy: 429,
+  'render-failed': 500,
+  'network-error': 0,
+};
+
+/**
+ * Error raised by an export, on the server and in `ExportButton`'s `onExportError`.
+ * The message is safe to show to users.
+ */
+export class PdfExportError extends Error {
+  readonly code: PdfExportErrorCode;
+  readonly status: number;
+
+  /**
+   * Underlying error, when the handler's `errorDetails` option exposes it
+   */
+  readonly details?: string;
+
+  constructor(
+    code: PdfExportErrorCode,
+    message: string,
+    options: { status?: number; details?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'PdfExportError';
+    this.code = code;
+    this.status = options.status ?? errorStatus[code];
+    this.details = options.details;
+  }
+}
+
+/**
+ * Wrap an unexpected error; export errors are returned as they are
+ */
+export function toPdfExportError(error: unknown) {
+  return error instanceof PdfExportError
+    ? error
+    : new PdfExportError('render-failed', 'Failed to generate PDF', { cause: error });
+}
+
+/**
+ * Error for a page that responded with an error status
+ */
+export function pageStatusError(status: number, url: string) {
+  const { pathname } = new URL(url);
+  if (status === 404) {
+    return new PdfExportError('page-not-found', `Page ${pathname} was not found`);
+  }
+  if (status === 401 || status === 403) {
+    return new PdfExportError('page-unauthorized', `Not authorized to view ${pathname}`, {
+      status,
+    });
+  }
+  return new PdfExportError('page-error', `Page ${pathname} responded with status ${status}`);
+}
+
+/**
+ * Rebuild the error described by an error response (or a failed job's status)
+ */
+export function fromErrorBody(
+  body: { error?: string; code?: string; details?: string } | null,
+  status?: number,
+  fallbackMessage = 'Failed to generate PDF'
+) {
+  const code =
+    body?.code && Object.hasOwn(errorStatus, body.code)
+      ? (body.code as PdfExportErrorCode)
+      : 'render-failed';
+  return new PdfExportError(code, body?.error || fallbackMessage, {
+    status,
+    details: body?.details,
+  });
+}
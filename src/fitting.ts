@@ -0,0 +1,257 @@
+import type { ContentFittingOptions } from './types.js';
+import type { RenderPage } from './renderer.js';
+
+/**
+ * Styles for fitted code blocks. Lines are blocks with a hanging indent, so a wrapped
+ * line's continuation starts further right, behind its continuation marker.
+ */
+const fittingStyles = `
+[data-pdf-code] {
+  overflow: visible !important;
+  max-height: none !important;
+}
+
+[data-pdf-code='wrap'],
+[data-pdf-code='wrap'] code {
+  white-space: pre-wrap !important;
+  overflow-wrap: anywhere;
+}
+
+.pdf-code-line {
+  display: block;
+  min-height: 1lh;
+}
+
+[data-pdf-code='wrap'] .pdf-code-line {
+  padding-left: 2ch;
+  text-indent: -2ch;
+}
+
+[data-pdf-code] .pdf-code-continuation {
+  display: inline-block;
+  width: 2ch;
+  margin-left: -2ch;
+  text-indent: 0;
+  opacity: 0.5;
+  user-select: none;
+}
+
+[data-pdf-line-numbers],
+[data-pdf-line-numbers] code {
+  counter-reset: pdf-line;
+}
+
+[data-pdf-line-numbers] .pdf-code-line::before {
+  counter-increment: pdf-line;
+  content: counter(pdf-line);
+  display: inline-block;
+  width: 3ch;
+  margin-right: 2ch;
+  text-align: right;
+  text-indent: 0;
+  opacity: 0.5;
+}
+
+[data-pdf-line-numbers][data-pdf-code='wrap'] .pdf-code-line {
+  padding-left: 7ch;
+  text-indent: -7ch;
+}
+
+[data-pdf-table='wrap'] {
+  table-layout: fixed;
+  width: 100% !important;
+}
+
+[data-pdf-table='wrap'] th,
+[data-pdf-table='wrap'] td {
+  overflow-wrap: anywhere;
+  white-space: normal !important;
+}
+`;
+
+/**
+ * Fit the cleaned-up content to the page width: strip code block chrome, expand scroll
+ * areas, then wrap or shrink long code lines and shrink, rotate or wrap wide tables
+ */
+export async function fitContent(page: RenderPage, fitting: Required<ContentFittingOptions>) {
+  await page.addStyleTag(fittingStyles);
+
+  await page.evaluate((fitting) => {
+    const container = document.body.firstElementChild as HTMLElement | null;
+    if (!container) return;
+    const available = container.clientWidth;
+
+    fitting.codeChromeSelectors.forEach((selector) => {
+      container.querySelectorAll(selector).forEach((element) => element.remove());
+    });
+
+    if (fitting.expandScrollAreas) {
+      container.querySelectorAll<HTMLElement>('*').forEach((element) => {
+        const style = getComputedStyle(element);
+        const scrolls = [style.overflowX, style.overflowY].some(
+          (overflow) => overflow === 'auto' || overflow === 'scroll'
+        );
+        if (scrolls) element.style.overflow = 'visible';
+        if (style.maxHeight !== 'none' && element.scrollHeight > element.clientHeight) {
+          element.style.maxHeight = 'none';
+          element.style.overflow = 'visible';
+        }
+      });
+    }
+
+    // One element per line: highlighters already emit them, plain code is split on newlines
+    const codeLines = (code: HTMLElement) => {
+      const lines = Array.from(code.children).filter((child) =>
+        child.matches('.line, .token-line, [data-line]')
+      ) as HTMLElement[];
+
+      if (lines.length > 0) {
+        // The newlines between line elements would add blank lines once lines are blocks
+        Array.from(code.childNodes)
+          .filter((node) => node.nodeType === Node.TEXT_NODE && !node.textContent?.trim())
+          .forEach((node) => node.remove());
+      } else {
+        const current = () => lines[lines.length - 1]!;
+        lines.push(document.createElement('span'));
+        Array.from(code.childNodes).forEach((node) => {
+          if (node.nodeType !== Node.TEXT_NODE) {
+            current().append(node);
+            return;
+          }
+          node.textContent!.split('\n').forEach((part, index) => {
+            if (index > 0) lines.push(document.createElement('span'));
+            if (part) current().append(part);
+          });
+        });
+        // A trailing newline does not start another line
+        if (lines.length > 1 && !current().hasChildNodes()) lines.pop();
+        code.replaceChildren(...lines);
+      }
+
+      lines.forEach((line) => line.classList.add('pdf-code-line'));
+      return lines;
+    };
+
+    // Put the marker in front of every character that starts a new visual line.
+    // Breaks are found by binary search on the characters' line boxes, so a wrapped line
+    // costs a few measurements per visual line rather than one per character.
+    const markContinuations = (line: HTMLElement) => {
+      const style = getComputedStyle(line);
+      const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+      if (line.getBoundingClientRect().height < lineHeight * 1.5) return;
+
+      const breaks: [Text, number][] = [];
+      const range = document.createRange();
+      const topAt = (node: Text, offset: number) => {
+        range.setStart(node, offset);
+        range.setEnd(node, offset + 1);
+        return range.getClientRects()[0]?.top ?? null;
+      };
+
+      const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+      let top: number | null = null;
+      let node: Text | null;
+      while ((node = walker.nextNode() as Text | null)) {
+        const text = node;
+        const below = (offset: number) => {
+          const charTop = topAt(text, offset);
+          return charTop !== null && top !== null && charTop > top + lineHeight / 2;
+        };
+
+        let start = 0;
+        while (start < text.length) {
+          const startTop = topAt(text, start);
+          if (startTop === null) {
+            start++;
+            continue;
+          }
+          if (top === null) {
+            top = startTop;
+          } else if (startTop > top + lineHeight / 2) {
+            breaks.push([text, start]);
+            top = startTop;
+          }
+
+          // The rest of the node is on this visual line
+          if (!below(text.length - 1)) break;
+
+          let low = start + 1;
+          let high = text.length - 1;
+          while (low < high) {
+            const middle = (low + high) >> 1;
+            if (below(middle)) high = middle;
+            else low = middle + 1;
+          }
+          start = low;
+        }
+      }
+
+      // Split from the end so earlier offsets stay valid
+      breaks.reverse().forEach(([node, offset]) => {
+        const marker = document.createElement('span');
+        marker.className = 'pdf-code-continuation';
+        marker.setAttribute('aria-hidden', 'true');
+        marker.textContent = fitting.continuationMarker;
+        node.splitText(offset).before(marker);
+      });
+    };
+
+    if (fitting.code !== 'none' || fitting.lineNumbers) {
+      container.querySelectorAll<HTMLElement>('pre').forEach((pre) => {
+        const code = pre.querySelector<HTMLElement>(':scope > code') ?? pre;
+        if (fitting.code !== 'none') pre.setAttribute('data-pdf-code', fitting.code);
+        if (fitting.lineNumbers) pre.setAttribute('data-pdf-line-numbers', '');
+
+        const lines = fitting.code === 'wrap' || fitting.lineNumbers ? codeLines(code) : [];
+
+        if (fitting.code === 'wrap') {
+          lines.forEach(markContinuations);
+        } else if (fitting.code === 'shrink' && pre.scrollWidth > pre.clientWidth) {
+          const fontSize = parseFloat(getComputedStyle(pre).fontSize);
+          const ratio = pre.clientWidth / pre.scrollWidth;
+          pre.style.fontSize = `${Math.max(fontSize * ratio, 6)}px`;
+          // Lines that are still too long at the smallest size wrap instead of disappearing
+          if (pre.scrollWidth > pre.clientWidth) pre.style.whiteSpace = 'pre-wrap';
+        }
+      });
+    }
+
+    if (fitting.tables !== 'none') {
+      container.querySelectorAll<HTMLTableElement>('table').forEach((table) => {
+        if (table.scrollWidth <= available + 1) return;
+
+        // Let the table out of scroll wrappers before measuring it
+        let parent = table.parentElement;
+        while (parent && parent !== container) {
+          parent.style.overflow = 'visible';
+          parent = parent.parentElement;
+        }
+
+        const width = table.scrollWidth;
+        if (fitting.tables === 'wrap') {
+          table.setAttribute('data-pdf-table', 'wrap');
+        } else if (fitting.tables === 'shrink') {
+          table.setAttribute('data-pdf-table', 'shrink');
+          table.style.zoom = String(available / width);
+        } else {
+          // Rotate clockwise into a holder as tall as the table is wide
+          table.setAttribute('data-pdf-table', 'rotate');
+          const height = table.offsetHeight;
+          const scale = Math.min(1, available / height);
+          const holder = document.createElement('div');
+          holder.style.cssText = `position: relative; height: ${width * scale}px;`;
+          holder.style.breakInside = 'avoid';
+          table.before(holder);
+          holder.append(table);
+          table.style.position = 'absolute';
+          table.style.top = '0';
+          table.style.left = '0';
+          table.style.width = `${width}px`;
+          table.style.maxWidth = 'none';
+          table.style.transformOrigin = 'top left';
+          table.style.transform = `translateX(${height * scale}px) rotate(90deg) scale(${scale})`;
+        }
+      });
+    }
+  }, fitting);
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from 'node:crypto';
+import type { OutputFormat, PdfMetadata } from './types.js';
+import type { OutlineHeading } from './outline.js';
+import type { RenderPage } from './renderer.js';
+import { createZip } from './zip.js';
+import { escapeHtml } from './utils.js';
+
+export const outputFormats: readonly OutputFormat[] = ['pdf', 'png', 'html', 'epub'];
+
+/**
+ * Content type of each output format; the format name doubles as the file extension
+ */
+export const formatContentTypes: Record<OutputFormat, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  html: 'text/html; charset=utf-8',
+  epub: 'application/epub+zip',
+};
+
+/**
+ * Serialize the prepared page into a single self-contained document: stylesheets are
+ * inlined into one `<style>`, images, canvases and CSS `url()` references become data URIs,
+ * scripts are dropped and links are made absolute.
+ *
+ * `xhtml` serializes the document as XML, for EPUB.
+ */
+export async function serializePage(page: RenderPage, xhtml = false) {
+  return page.evaluate(async (xhtml) => {
+    const dataUrls = new Map<string, Promise<string | null>>();
+    const toDataUrl = (url: string) => {
+      if (!dataUrls.has(url)) {
+        dataUrls.set(
+          url,
+          fetch(url)
+            .then((response) => (response.ok ? response.blob() : null))
+            .then(
+              (blob) =>
+                blob &&
+                new Promise<string | null>((resolve) => {
+                  const reader = new FileReader();
+                  reader.onload = () => resolve(reader.result as string);
+                  reader.onerror = () => resolve(null);
+                  reader.readAsDataURL(blob);
+                })
+            )
+            .catch(() => null)
+        );
+      }
+      return dataUrls.get(url)!;
+    };
+
+    const inlineUrls = async (css: string, base: string) => {
+      const references = [...css.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)];
+      for (const [reference, , url] of references) {
+        if (url!.startsWith('data:') || url!.startsWith('#')) continue;
+        const data = await toDataUrl(new URL(url!, base).href);
+        if (data) css = css.split(reference).join(`url("${data}")`);
+      }
+      return css;
+    };
+
+    // Stylesheets from other origins are not readable and were blocked while rendering anyway
+    const sheetText = async (sheet: CSSStyleSheet): Promise<string> => {
+      let rules: CSSRule[];
+      try {
+        rules = Array.from(sheet.cssRules);
+      } catch {
+        return '';
+      }
+      const parts = await Promise.all(
+        rules.map((rule) =>
+          rule instanceof CSSImportRule && rule.styleSheet
+            ? sheetText(rule.styleSheet)
+            : inlineUrls(rule.cssText, sheet.href ?? location.href)
+        )
+      );
+      return parts.join('\n');
+    };
+
+    const css = (await Promise.all(Array.from(document.styleSheets).map(sheetText))).join('\n');
+
+    const root = document.documentElement.cloneNode(true) as HTMLElement;
+
+    // Canvases lose their pixels when cloned
+    const canvases = Array.from(document.querySelectorAll('canvas'));
+    root.querySelectorAll('canvas').forEach((clone, index) => {
+      const image = document.createElement('img');
+      try {
+        image.src = canvases[index]!.toDataURL();
+      } catch {
+        return;
+      }
+      image.width = canvases[index]!.width;
+      image.height = canvases[index]!.height;
+      clone.replaceWith(image);
+    });
+
+    const images = Array.from(document.images);
+    await Promise.all(
+      Array.from(root.querySelectorAll('img')).map(async (clone, index) => {
+        const source = images[index]?.currentSrc || clone.src;
+        clone.removeAttribute('srcset');
+        clone.removeAttribute('sizes');
+        clone.removeAttribute('loading');
+        if (!source || source.startsWith('data:')) return;
+        const data = await toDataUrl(source);
+        if (data) clone.setAttribute('src', data);
+      })
+    );
+
+    root
+      .querySelectorAll(
+        'script, noscript, style, link[rel~="stylesheet"], link[rel~="preload"], link[rel~="modulepreload"], picture > source, base'
+      )
+      .forEach((element) => element.remove());
+
+    root.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((link) => {
+      if (!link.getAttribute('href')!.startsWith('#')) link.setAttribute('href', link.href);
+    });
+
+    const style = document.createElement('style');
+    style.textContent = css;
+    root.querySelector('head')?.append(style);
+
+    return xhtml
+      ? new XMLSerializer().serializeToString(root)
+      : `<!DOCTYPE html>\n${root.outerHTML}`;
+  }, xhtml);
+}
+
+/**
+ * Package the prepared page as an EPUB 3 book with a single chapter.
+ * Images are stored as separate files; the navigation document lists the outline headings.
+ */
+export async function createEpub(
+  page: RenderPage,
+  metadata: PdfMetadata,
+  headings: OutlineHeading[]
+) {
+  // Keyed by data URI, so an image used several times is stored once
+  const images = new Map<string, { name: string; type: string; data: Uint8Array }>();
+  const chapter = (await serializePage(page, true)).replace(
+    /src="data:(image\/[\w.+-]+);base64,([^"]+)"/g,
+    (source, type: string, base64: string) => {
+      let image = images.get(source);
+      if (!image) {
+        const extension = type === 'image/svg+xml' ? 'svg' : type.split('/')[1]!;
+        image = {
+          name: `images/image-${images.size + 1}.${extension}`,
+          type,
+          data: Buffer.from(base64, 'base64'),
+        };
+        images.set(source, image);
+      }
+      return `src="${image.name}"`;
+    }
+  );
+
+  const title = escapeHtml(metadata.title ?? 'Untitled');
+  const language = escapeHtml(metadata.language ?? 'en');
+  const modified = (metadata.creationDate ?? new Date()).toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:language>${language}</dc:language>
+    ${metadata.author ? `<dc:creator>${escapeHtml(metadata.author)}</dc:creator>` : ''}
+    ${metadata.subject ? `<dc:description>${escapeHtml(metadata.subject)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="chapter" href="index.xhtml" media-type="application/xhtml+xml"/>
+    ${[...images.values()]
+      .map(
+        (image, index) =>
+          `<item id="image-${index + 1}" href="${image.name}" media-type="${image.type}"/>`
+      )
+      .join('\n    ')}
+  </manifest>
+  <spine>
+    <itemref idref="chapter"/>
+  </spine>
+</package>`;
+
+  const navigation = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}">
+<head><title>${title}</title></head>
+<body>
+  <nav epub:type="toc">
+    <h1>${title}</h1>
+    <ol>
+      ${(headings.length > 0 ? headings : [{ id: '', title: metadata.title ?? 'Untitled' }])
+        .map((heading) => {
+          const href = heading.id ? `index.xhtml#${encodeURIComponent(heading.id)}` : 'index.xhtml';
+          return `<li><a href="${href}">${escapeHtml(heading.title)}</a></li>`;
+        })
+        .join('\n      ')}
+    </ol>
+  </nav>
+</body>
+</html>`;
+
+  const text = (value: string) => new TextEncoder().encode(value);
+
+  return createZip([
+    { name: 'mimetype', data: text('application/epub+zip'), store: true },
+    { name: 'META-INF/container.xml', data: text(container) },
+    { name: 'OEBPS/content.opf', data: text(packageDocument) },
+    { name: 'OEBPS/nav.xhtml', data: text(navigation) },
+    {
+      name: 'OEBPS/index.xhtml',
+      data: text(`<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>\n${chapter}`),
+    },
+    ...[...images.values()].map((image) => ({ name: `OEBPS/${image.name}`, data: image.data })),
+  ]);
+}
@@ -0,0 +1,90 @@
+import { escapeHtml } from './utils.js';
+import type { RenderPage } from './renderer.js';
+
+/**
+ * Placeholders available in header and footer templates
+ */
+const placeholders = ['title', 'url', 'date', 'version', 'pageNumber', 'totalPages'] as const;
+
+/**
+ * Page details substituted into header and footer templates
+ */
+export interface PageDetails {
+  title: string;
+  url: string;
+}
+
+/**
+ * Read the title and source URL of the prepared page
+ */
+export async function getPageDetails(
+  page: RenderPage,
+  contentSelector: string
+): Promise<PageDetails> {
+  const title = await page.evaluate((selector) => {
+    const heading = document.querySelector(`${selector} h1, h1`);
+    return heading?.textContent?.trim() || document.title || '';
+  }, contentSelector);
+
+  return { title, url: page.url() };
+}
+
+/**
+ * Build the Puppeteer header/footer options.
+ * Margins grow by the template height so templates never overlap the content.
+ */
+export function buildHeaderFooter(
+  config: {
+    headerTemplate?: string;
+    footerTemplate?: string;
+    headerFooterHeight: number;
+    docVersion?: string;
+    margins: { top?: number; right?: number; bottom?: number; left?: number };
+  },
+  details: PageDetails
+) {
+  const margins = {
+    top: config.margins.top ?? 0,
+    right: config.margins.right ?? 0,
+    bottom: config.margins.bottom ?? 0,
+    left: config.margins.left ?? 0,
+  };
+
+  if (!config.headerTemplate && !config.footerTemplate) {
+    return { displayHeaderFooter: false, margin: margins };
+  }
+
+  const values: Record<(typeof placeholders)[number], string> = {
+    title: escapeHtml(details.title),
+    url: escapeHtml(details.url),
+    date: escapeHtml(new Date().toLocaleDateString('en-US', { dateStyle: 'long' })),
+    version: escapeHtml(config.docVersion ?? ''),
+    // Filled in by Chrome for every page
+    pageNumber: '<span class="pageNumber"></span>',
+    totalPages: '<span class="totalPages"></span>',
+  };
+
+  // Chrome renders templates at a tiny default font size and without the page margins
+  const wrap = (template: string | undefined) =>
+    template
+      ? `<div style="font-size: 9px; color: #666; width: 100%; margin: 0 ${margins.right}px 0 ${margins.left}px;">${template.replace(
+          /\{\{\s*(\w+)\s*\}\}/g,
+          (match, name: string) =>
+            (placeholders as readonly string[]).includes(name)
+              ? values[name as (typeof placeholders)[number]]
+              : match
+        )}</div>`
+      : // An empty template, otherwise Chrome prints its default date and title
+        '<span></span>';
+
+  return {
+    displayHeaderFooter: true,
+    headerTemplate: wrap(config.headerTemplate),
+    footerTemplate: wrap(config.footerTemplate),
+    margin: {
+      ...margins,
+      top: margins.top + (config.headerTemplate ? config.headerFooterHeight : 0),
+      bottom: margins.bottom + (config.footerTemplate ? config.headerFooterHeight : 0),
+    },
+  };
+}
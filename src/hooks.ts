@@ -0,0 +1,76 @@
+import type { BrowserTransform, PdfMetadata, RequestExportOptions } from './types.js';
+import type { ResolvedPdfExportOptions } from './pipeline.js';
+import type { RenderPage } from './renderer.js';
+
+/**
+ * Create a transform that runs `script` in the browser with the given arguments.
+ * The function is serialized, so it cannot close over variables: pass them as arguments.
+ *
+ * @example
+ * browserTransform((selector, text) => {
+ *   document.querySelectorAll(selector).forEach((el) => (el.textContent = text));
+ * }, '.version', 'v2.1')
+ */
+export function browserTransform<Args extends unknown[]>(
+  script: (...args: Args) => unknown,
+  ...args: Args
+): BrowserTransform {
+  return { script: script as (...args: never[]) => unknown, args };
+}
+
+/**
+ * Run the `onRequest` hook. Returns the response when the hook answers the request,
+ * otherwise the configuration with the hook's options applied.
+ */
+export async function runRequestHook(
+  config: ResolvedPdfExportOptions,
+  request: Request
+): Promise<ResolvedPdfExportOptions | Response> {
+  const result = await config.hooks?.onRequest?.(request);
+  if (result instanceof Response) return result;
+  return result ? withRequestOptions(config, result) : config;
+}
+
+/**
+ * Apply per-request options over a resolved configuration, ignoring `undefined` values
+ */
+export function withRequestOptions(
+  config: ResolvedPdfExportOptions,
+  options: RequestExportOptions
+): ResolvedPdfExportOptions {
+  const defined = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as RequestExportOptions;
+
+  return {
+    ...config,
+    ...defined,
+    margins: { ...config.margins, ...defined.margins },
+    readiness: { ...config.readiness, ...defined.readiness },
+    fitting: { ...config.fitting, ...defined.fitting },
+  };
+}
+
+/**
+ * Run `beforePdfGeneration` and the transform hooks in the page, in order
+ */
+export async function runTransforms(page: RenderPage, config: ResolvedPdfExportOptions) {
+  if (config.beforePdfGeneration) {
+    await page.evaluate(config.beforePdfGeneration);
+  }
+
+  for (const transform of config.hooks?.transforms ?? []) {
+    await page.evaluate(transform.script as (...args: unknown[]) => unknown, ...transform.args);
+  }
+}
+
+/**
+ * Run the `afterPdf` hook, keeping the PDF unless the hook returns a replacement
+ */
+export async function runAfterPdf(
+  config: ResolvedPdfExportOptions,
+  pdf: Uint8Array,
+  context: { request: Request; metadata: PdfMetadata }
+) {
+  return (await config.hooks?.afterPdf?.(pdf, context)) ?? pdf;
+}
@@ -1,14 +1,97 @@
-// Route handler
-export { createPdfExportHandler } from './route-handler.js';
+// Core export and HTTP adapters
+export { exportPdf } from './core.js';
+export { browserTransform } from './hooks.js';
+export { createPdfExportHandler, createWebPdfExportHandler } from './route-handler.js';
+export {
+  createNodePdfExportHandler,
+  createPagesPdfExportHandler,
+  createPdfExportMiddleware,
+} from './node-handler.js';
+
+// Errors
+export { PdfExportError } from './errors.js';
+export type { PdfExportErrorCode } from './errors.js';
+
+// Export jobs
+export { createPdfExportJobHandler, createMemoryJobStore } from './jobs.js';
+
+// Browser pool and rendering backends
+export { createBrowserPool, toRenderPage } from './browser-pool.js';
+export type { BrowserPool, BrowserPoolStats } from './browser-pool.js';
+export type {
+  Renderer,
+  RenderContext,
+  RenderPage,
+  RenderCookie,
+  RenderRequest,
+  RenderResponse,
+  RenderPdfOptions,
+} from './renderer.js';
+
+// Cache
+export { createPdfCache, createMemoryCacheStore, createFileSystemCacheStore } from './cache.js';
+export type { PdfCache } from './cache.js';
+
+// Metrics
+export { createPdfMetrics } from './metrics.js';
+export type { PdfMetrics } from './metrics.js';
+
+// Static export
+export { exportStaticPdfs } from './static-export.js';
 
 // Components
-export { ExportButton, FumadocsExportButton } from './components/index.js';
+export { ExportButton, FumadocsExportButton, SectionExportButton } from './components/index.js';
 
 // Types and presets
 export type {
   PdfExportOptions,
   ExportButtonProps,
   PresetName,
+  PdfLayout,
+  OutputFormat,
+  MarginPreset,
+  RequestOverrides,
+  RequestOverride,
+  PaperFormat,
+  PageOrientation,
+  TabsMode,
+  ColorScheme,
+  ErrorDetails,
+  ReadinessOptions,
+  ReadinessStep,
+  ContentFittingOptions,
+  AccessibilityIssue,
+  ExportMetrics,
+  DebugReport,
+  DebugStage,
+  ExportLogEvent,
+  PdfMetricsOptions,
+  BundlePage,
+  BundleOptions,
+  BundleFailure,
+  HeadingLevel,
+  OutlineOptions,
+  WatermarkOptions,
+  PdfMetadata,
+  BrowserPoolOptions,
+  RenderQueueOptions,
+  PdfCacheOptions,
+  PdfCacheStore,
+  CachedPdf,
+  ExportPhase,
+  ExportProgress,
+  ExportJob,
+  ExportJobOptions,
+  ExportJobStore,
+  StaticExportOptions,
+  StaticExportEntry,
+  StaticExportManifest,
+  ExportPdfInput,
+  ExportPdfResult,
+  ExportHooks,
+  ExportHookContext,
+  RequestExportOptions,
+  BrowserTransform,
 } from './types.js';
 
 export { presets } from './types.js';
@@ -0,0 +1,259 @@
+import { randomUUID } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import type {
+  ExportJob,
+  ExportJobOptions,
+  ExportJobStore,
+  PdfExportOptions,
+  PresetName,
+} from './types.js';
+import { createExportResponder } from './route-handler.js';
+import { requestOverrideNames } from './overrides.js';
+import { consoleLogger } from './metrics.js';
+
+const defaultJobOptions = {
+  resultTtl: 10 * 60 * 1000,
+  runInBackground: (task: Promise<void>) => {
+    void task;
+  },
+};
+
+// Platforms that freeze or stop the function once the response is sent
+const serverlessEnvironment = ['VERCEL', 'AWS_LAMBDA_FUNCTION_NAME', 'NETLIFY', 'FUNCTION_TARGET'];
+
+// Query parameters that select what to export, accepted in the POST body or query string
+const exportParams = ['path', 'paths', 'prefix', 'title', 'section', ...requestOverrideNames];
+
+/**
+ * Creates Next.js route handlers for asynchronous export jobs
+ *
+ * - `POST ?path=/docs/page` (or a JSON body with `path`, `paths`, `prefix`, `title`, `section`
+ *   and the options in `allowRequestOverrides`) creates a job and responds `202` with its id
+ * - `GET ?id=<job>` reports the job status, phase and progress
+ * - `GET ?id=<job>&download=1` serves the finished file until it expires
+ *
+ * The job id is the only access check: anyone holding it can read the status and download
+ * the file. Ids are random UUIDs, only returned to the client that created the job.
+ *
+ * @example
+ * // app/api/export-pdf/jobs/route.ts
+ * import { after } from 'next/server';
+ * import { createPdfExportJobHandler } from 'fumadocs-pdf-export';
+ *
+ * export const { GET, POST } = createPdfExportJobHandler({
+ *   baseUrl: 'http://localhost:3000',
+ *   jobs: { runInBackground: (task) => after(task) },
+ * });
+ */
+export function createPdfExportJobHandler(options?: PdfExportOptions | PresetName) {
+  const respond = createExportResponder(options);
+  const jobOptions: ExportJobOptions = (typeof options === 'object' && options.jobs) || {};
+  const store = jobOptions.store ?? createMemoryJobStore();
+  const resultTtl = jobOptions.resultTtl ?? defaultJobOptions.resultTtl;
+  const runInBackground = jobOptions.runInBackground ?? defaultJobOptions.runInBackground;
+  const logger = (typeof options === 'object' && options.logger) || consoleLogger;
+
+  // Jobs expire `resultTtl` after their last update, not after creation: every update
+  // extends the expiry, so only finished or abandoned jobs run out
+  async function update(id: string, changes: Partial<ExportJob>) {
+    const job = await store.get(id);
+    if (!job) return;
+    const now = Date.now();
+    await store.set({ ...job, ...changes, updatedAt: now, expiresAt: now + resultTtl });
+  }
+
+  async function runJob(id: string, request: Request) {
+    // Apply updates in order so a late progress update never overwrites the final state
+    let pending = Promise.resolve();
+    const enqueue = (changes: Partial<ExportJob>) => {
+      pending = pending.then(() => update(id, changes)).catch(() => undefined);
+      return pending;
+    };
+
+    try {
+      await enqueue({ status: 'running' });
+
+      const response = await respond(request, (progress) => {
+        void enqueue({ phase: progress.phase, progress: progress.progress });
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        await enqueue({
+          status: 'failed',
+          phase: 'failed',
+          error: body.error || 'Failed to generate PDF',
+          errorCode: body.code,
+          errorStatus: response.status,
+        });
+        return;
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      await enqueue({
+        status: 'done',
+        phase: 'done',
+        progress: 100,
+        result: { body: new Uint8Array(await response.arrayBuffer()), headers },
+      });
+    } catch (error) {
+      logger({ level: 'error', event: 'job-failed', id, error });
+      await enqueue({
+        status: 'failed',
+        phase: 'failed',
+        error: 'Failed to generate PDF',
+        errorCode: 'render-failed',
+        errorStatus: 500,
+      });
+    }
+  }
+
+  async function POST(request: NextRequest): Promise<Response> {
+    // Checked per request rather than at creation: `next build` evaluates route modules with
+    // the platform's environment set
+    if (!jobOptions.runInBackground && serverlessEnvironment.some((name) => process.env[name])) {
+      return Response.json(
+        {
+          error:
+            'Missing jobs.runInBackground: on serverless platforms pass `after` from ' +
+            "next/server or the platform's waitUntil, or jobs stop when the response is sent",
+          code: 'render-failed',
+        },
+        { status: 500 }
+      );
+    }
+
+    const params = new URLSearchParams();
+    request.nextUrl.searchParams.forEach((value, key) => {
+      if (exportParams.includes(key)) params.append(key, value);
+    });
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+      for (const key of exportParams) {
+        const value = body?.[key];
+        if (Array.isArray(value)) {
+          params.set(key, value.map(String).join(','));
+        } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+          params.set(key, String(value));
+        }
+      }
+    }
+
+    if (!params.has('path') && !params.has('paths') && !params.has('prefix')) {
+      return Response.json({ error: 'Missing path parameter' }, { status: 400 });
+    }
+
+    // Run the export against a GET request carrying the caller's headers (cookies, host)
+    const exportUrl = new URL(request.nextUrl.pathname, request.nextUrl.origin);
+    exportUrl.search = params.toString();
+    const headers = new Headers(request.headers);
+    headers.delete('content-type');
+    headers.delete('content-length');
+    headers.delete('if-none-match');
+    const exportRequest = new Request(exportUrl, { headers });
+
+    const now = Date.now();
+    const job: ExportJob = {
+      id: randomUUID(),
+      status: 'queued',
+      phase: 'queued',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + resultTtl,
+    };
+    await store.set(job);
+
+    runInBackground(runJob(job.id, exportRequest));
+
+    return Response.json(toStatus(job, request), { status: 202 });
+  }
+
+  async function GET(request: NextRequest): Promise<Response> {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return Response.json({ error: 'Missing id parameter' }, { status: 400 });
+    }
+
+    const job = await store.get(id);
+    if (!job) {
+      return Response.json({ error: 'Job not found or expired' }, { status: 404 });
+    }
+
+    if (!request.nextUrl.searchParams.has('download')) {
+      return Response.json(toStatus(job, request));
+    }
+
+    if (job.status === 'failed') {
+      return Response.json(
+        { error: job.error, code: job.errorCode },
+        { status: job.errorStatus ?? 500 }
+      );
+    }
+
+    if (job.status !== 'done' || !job.result) {
+      return Response.json({ error: 'Job is not finished yet' }, { status: 409 });
+    }
+
+    return new Response(Buffer.from(job.result.body), { headers: job.result.headers });
+  }
+
+  return { GET, POST };
+}
+
+/**
+ * Public view of a job, without the PDF itself
+ */
+function toStatus(job: ExportJob, request: NextRequest) {
+  const url = new URL(request.nextUrl.pathname, request.nextUrl.origin);
+  url.searchParams.set('id', job.id);
+  const statusUrl = `${url.pathname}${url.search}`;
+
+  return {
+    id: job.id,
+    status: job.status,
+    phase: job.phase,
+    progress: job.progress,
+    error: job.error,
+    code: job.errorCode,
+    statusUrl,
+    downloadUrl: job.status === 'done' ? `${statusUrl}&download=1` : undefined,
+    expiresAt: new Date(job.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * In-memory job store. Expired jobs are removed when read or when new jobs are stored.
+ */
+export function createMemoryJobStore(): ExportJobStore {
+  const jobs = new Map<string, ExportJob>();
+
+  const isExpired = (job: ExportJob) => job.expiresAt < Date.now();
+
+  return {
+    get(id) {
+      const job = jobs.get(id);
+      if (job && isExpired(job)) {
+        jobs.delete(id);
+        return undefined;
+      }
+      return job;
+    },
+
+    set(job) {
+      for (const [id, existing] of jobs) {
+        if (isExpired(existing)) jobs.delete(id);
+      }
+      jobs.set(job.id, job);
+    },
+
+    delete(id) {
+      jobs.delete(id);
+    },
+  };
+}
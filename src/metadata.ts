@@ -0,0 +1,157 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName } from 'pdf-lib';
+import type { PdfExportOptions, PdfMetadata } from './types.js';
+import { escapeHtml } from './utils.js';
+import type { RenderPage } from './renderer.js';
+import { applyPdfAProfile } from './pdfa.js';
+
+/**
+ * Read document metadata from the loaded page, before cleanup replaces the body.
+ *
+ * Later sources win: `<title>` and `<meta>` tags, then `og:*` tags, then `data-pdf-*`
+ * attributes a site can render from page frontmatter (`data-pdf-title`, `data-pdf-author`,
+ * `data-pdf-description`, `data-pdf-keywords`, `data-pdf-version`).
+ */
+export async function extractMetadata(page: RenderPage): Promise<PdfMetadata> {
+  const extracted = await page.evaluate(() => {
+    const meta = (selector: string) =>
+      document.querySelector<HTMLMetaElement>(`meta[${selector}]`)?.content.trim() || undefined;
+    const data = (name: string) =>
+      document.querySelector(`[data-pdf-${name}]`)?.getAttribute(`data-pdf-${name}`)?.trim() ||
+      undefined;
+
+    return {
+      title: data('title') ?? meta('property="og:title"') ?? (document.title.trim() || undefined),
+      author: data('author') ?? meta('property="article:author"') ?? meta('name="author"'),
+      subject:
+        data('description') ?? meta('property="og:description"') ?? meta('name="description"'),
+      keywords: data('keywords') ?? meta('name="keywords"'),
+      language: document.documentElement.lang || undefined,
+      version: data('version'),
+    };
+  });
+
+  return {
+    ...extracted,
+    keywords: extracted.keywords
+      ?.split(',')
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Apply the `metadata` option to the metadata extracted from the page.
+ * An object adds or overrides fields; a function receives the extracted metadata
+ * and returns the final metadata.
+ */
+export async function resolveMetadata(
+  option: PdfExportOptions['metadata'],
+  extracted: PdfMetadata,
+  request: Request
+): Promise<PdfMetadata> {
+  const metadata =
+    typeof option === 'function' ? await option(extracted, request) : { ...extracted, ...option };
+  return { ...metadata, creationDate: metadata.creationDate ?? new Date() };
+}
+
+/**
+ * Write metadata into the PDF's info dictionary and XMP packet,
+ * and apply the PDF/A profile when `pdfA` is set
+ */
+export async function writeMetadata(
+  pdf: Uint8Array,
+  metadata: PdfMetadata,
+  options: { pdfA?: boolean } = {}
+) {
+  const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+  const creationDate = metadata.creationDate ?? new Date();
+
+  if (metadata.title) doc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  if (metadata.author) doc.setAuthor(metadata.author);
+  if (metadata.subject) doc.setSubject(metadata.subject);
+  if (metadata.language) doc.setLanguage(metadata.language);
+  doc.setCreator(metadata.creator ?? 'fumadocs-pdf-export');
+  doc.setProducer(metadata.producer ?? 'fumadocs-pdf-export');
+  doc.setCreationDate(creationDate);
+  doc.setModificationDate(creationDate);
+
+  const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+  // Set directly: `setKeywords` joins with spaces, and the XMP `pdf:Keywords` must be identical
+  if (metadata.keywords?.length) {
+    info.set(PDFName.of('Keywords'), PDFHexString.fromText(joinKeywords(metadata.keywords)));
+  }
+  // Custom info entries are not shown by most readers but are kept for search indexes
+  if (metadata.version) {
+    info.set(PDFName.of('Version'), PDFHexString.fromText(metadata.version));
+  }
+
+  const xmp = doc.context.stream(
+    new TextEncoder().encode(buildXmp({ ...metadata, creationDate }, options.pdfA)),
+    { Type: 'Metadata', Subtype: 'XML' }
+  );
+  doc.catalog.set(PDFName.of('Metadata'), doc.context.register(xmp));
+
+  if (options.pdfA) applyPdfAProfile(doc);
+
+  return doc.save();
+}
+
+/**
+ * Keywords as the single string stored in the info dictionary and in XMP
+ */
+function joinKeywords(keywords: string[]) {
+  return keywords.join(', ');
+}
+
+/**
+ * Serialize metadata as an XMP packet (Dublin Core, XMP basic and PDF schemas),
+ * with the PDF/A-2b identification when `pdfA` is set
+ */
+function buildXmp(metadata: PdfMetadata & { creationDate: Date }, pdfA = false) {
+  const date = metadata.creationDate.toISOString();
+  const language = escapeHtml(metadata.language || 'x-default');
+  // Readers look up the `x-default` entry; the page language is added alongside it
+  const languages = language === 'x-default' ? [language] : ['x-default', language];
+  const alt = (value: string) =>
+    `<rdf:Alt>${languages
+      .map((lang) => `<rdf:li xml:lang="${lang}">${escapeHtml(value)}</rdf:li>`)
+      .join('')}</rdf:Alt>`;
+
+  const fields = [
+    metadata.title && `<dc:title>${alt(metadata.title)}</dc:title>`,
+    metadata.author &&
+      `<dc:creator><rdf:Seq><rdf:li>${escapeHtml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    metadata.subject && `<dc:description>${alt(metadata.subject)}</dc:description>`,
+    metadata.keywords?.length &&
+      `<dc:subject><rdf:Bag>${metadata.keywords
+        .map((keyword) => `<rdf:li>${escapeHtml(keyword)}</rdf:li>`)
+        .join('')}</rdf:Bag></dc:subject>`,
+    metadata.keywords?.length &&
+      `<pdf:Keywords>${escapeHtml(joinKeywords(metadata.keywords))}</pdf:Keywords>`,
+    metadata.language &&
+      `<dc:language><rdf:Bag><rdf:li>${language}</rdf:li></rdf:Bag></dc:language>`,
+    metadata.version && `<xmpMM:VersionID>${escapeHtml(metadata.version)}</xmpMM:VersionID>`,
+    `<xmp:CreateDate>${date}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${date}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${date}</xmp:MetadataDate>`,
+    `<xmp:CreatorTool>${escapeHtml(metadata.creator ?? 'fumadocs-pdf-export')}</xmp:CreatorTool>`,
+    `<pdf:Producer>${escapeHtml(metadata.producer ?? 'fumadocs-pdf-export')}</pdf:Producer>`,
+    pdfA && '<pdfaid:part>2</pdfaid:part>',
+    pdfA && '<pdfaid:conformance>B</pdfaid:conformance>',
+  ].filter(Boolean);
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+  xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+  xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+${fields.join('\n')}
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
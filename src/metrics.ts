@@ -0,0 +1,253 @@
+import { PDFDocument } from 'pdf-lib';
+import type { ExportLogEvent, ExportMetrics, ExportPhase, PdfMetricsOptions } from './types.js';
+import type { ResolvedPdfExportOptions } from './pipeline.js';
+import type { RenderPage } from './renderer.js';
+import { toPdfExportError } from './errors.js';
+
+/**
+ * Default `logger`: errors go to `console.error`, info events are dropped
+ */
+export function consoleLogger(event: ExportLogEvent) {
+  switch (event.event) {
+    case 'export-failed':
+      console.error('PDF generation error:', event.error);
+      break;
+    case 'bundle-page-failed':
+      console.error(`PDF bundle error for ${event.path}:`, event.error);
+      break;
+    case 'job-failed':
+      console.error('PDF export job error:', event.error);
+      break;
+    case 'browser-disconnected':
+      console.error('[PDF Export] Browser disconnected, removing it from the pool');
+      break;
+  }
+}
+
+type MetricsCounter = 'accordionsExpanded' | 'imagesLoaded' | 'imagesFailed';
+
+/**
+ * Collect the timings and counters of one export. Phases are timed from one
+ * `enter()` to the next, so they line up with the progress phases.
+ */
+export function createMetricsRecorder() {
+  const start = performance.now();
+  const phases: Partial<Record<ExportPhase, number>> = {};
+  let current: { phase: ExportPhase; start: number } | null = null;
+  let details: Omit<ExportMetrics, 'status' | 'durationMs' | 'phases'> = {
+    paths: [],
+    format: 'pdf',
+    cache: 'off',
+  };
+  let failure: unknown;
+
+  const closePhase = () => {
+    if (!current) return;
+    phases[current.phase] = (phases[current.phase] ?? 0) + performance.now() - current.start;
+    current = null;
+  };
+
+  return {
+    enter(phase: ExportPhase) {
+      closePhase();
+      current = { phase, start: performance.now() };
+    },
+
+    set(values: Partial<typeof details>) {
+      details = { ...details, ...values };
+    },
+
+    count(counter: MetricsCounter, amount: number) {
+      details = { ...details, [counter]: (details[counter] ?? 0) + amount };
+    },
+
+    fail(error: unknown) {
+      failure = error;
+      details = { ...details, error: toPdfExportError(error).code };
+    },
+
+    /**
+     * Finish the recording and pass the metrics to `onMetrics` and the logger.
+     * Server-side failures are logged in full; client errors are not logged.
+     */
+    report(config: Pick<ResolvedPdfExportOptions, 'onMetrics' | 'logger'>, status: number) {
+      closePhase();
+      const metrics: ExportMetrics = {
+        ...details,
+        status,
+        durationMs: Math.round(performance.now() - start),
+        phases: Object.fromEntries(
+          Object.entries(phases).map(([phase, duration]) => [phase, Math.round(duration)])
+        ),
+      };
+
+      config.onMetrics?.(metrics);
+      if (status >= 500 && failure !== undefined) {
+        const exportError = toPdfExportError(failure);
+        config.logger({
+          level: 'error',
+          event: 'export-failed',
+          error: exportError.cause ?? exportError,
+          metrics,
+        });
+      } else if (status < 400) {
+        config.logger({ level: 'info', event: 'export-completed', metrics });
+      }
+      return metrics;
+    },
+  };
+}
+
+export type MetricsRecorder = ReturnType<typeof createMetricsRecorder>;
+
+/**
+ * `Server-Timing` header value: the duration of each phase and the total
+ */
+export function serverTiming(metrics: ExportMetrics) {
+  return [
+    ...Object.entries(metrics.phases).map(([phase, duration]) => `${phase};dur=${duration}`),
+    `total;dur=${metrics.durationMs}`,
+  ].join(', ');
+}
+
+/**
+ * Count the images on the page that loaded, and list the URLs of those that failed
+ */
+export async function countImages(page: RenderPage) {
+  return page.evaluate(() => {
+    const images = Array.from(document.images).filter((image) => image.currentSrc || image.src);
+    const failed = images.filter((image) => !image.complete || image.naturalWidth === 0);
+    return {
+      loaded: images.length - failed.length,
+      failed: failed.map((image) => image.currentSrc || image.src),
+    };
+  });
+}
+
+export async function countPdfPages(pdf: Uint8Array) {
+  return (await PDFDocument.load(pdf, { updateMetadata: false })).getPageCount();
+}
+
+/**
+ * Export totals in the Prometheus text format
+ */
+export interface PdfMetrics {
+  /**
+   * Add an export to the totals; pass it as the `onMetrics` option
+   */
+  record(metrics: ExportMetrics): void;
+
+  /**
+   * Current totals in the Prometheus text exposition format
+   */
+  toPrometheus(): string;
+
+  /**
+   * Route handler serving the totals to a Prometheus scraper
+   */
+  handler(): Response;
+}
+
+const defaultBuckets = [0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Create a registry that totals export metrics for Prometheus
+ *
+ * @example
+ * // lib/pdf-metrics.ts
+ * export const pdfMetrics = createPdfMetrics();
+ *
+ * // app/api/export-pdf/route.ts
+ * export const GET = createPdfExportHandler({ onMetrics: pdfMetrics.record });
+ *
+ * // app/api/metrics/route.ts
+ * export const GET = pdfMetrics.handler;
+ */
+export function createPdfMetrics(options: PdfMetricsOptions = {}): PdfMetrics {
+  const prefix = options.prefix ?? 'pdf_export';
+  const buckets = [...(options.buckets ?? defaultBuckets)].sort((a, b) => a - b);
+
+  const families = [
+    {
+      name: 'requests_total',
+      type: 'counter',
+      help: 'Export requests by format, status and cache result',
+    },
+    { name: 'duration_seconds', type: 'histogram', help: 'Export duration in seconds' },
+    {
+      name: 'phase_duration_seconds',
+      type: 'summary',
+      help: 'Time spent in each export phase in seconds',
+    },
+    { name: 'bytes_total', type: 'counter', help: 'Bytes of exported files' },
+    { name: 'pages_total', type: 'counter', help: 'Pages of exported PDFs' },
+    { name: 'accordions_expanded_total', type: 'counter', help: 'Accordions expanded' },
+    { name: 'images_loaded_total', type: 'counter', help: 'Images that loaded' },
+    { name: 'images_failed_total', type: 'counter', help: 'Images that failed to load' },
+  ] as const;
+  type Family = (typeof families)[number]['name'];
+
+  // Sample lines by family, keyed by name suffix and labels, in first-seen order
+  const samples = new Map<Family, Map<string, number>>(
+    families.map((family) => [family.name, new Map()])
+  );
+
+  const add = (family: Family, suffix: string, labels: Record<string, string>, value: number) => {
+    const formatted = Object.entries(labels)
+      .map(([name, label]) => `${name}="${escapeLabel(label)}"`)
+      .join(',');
+    const key = `${prefix}_${family}${suffix}${formatted ? `{${formatted}}` : ''}`;
+    const values = samples.get(family)!;
+    values.set(key, (values.get(key) ?? 0) + value);
+  };
+
+  function record(metrics: ExportMetrics) {
+    const { format } = metrics;
+    add('requests_total', '', { format, status: String(metrics.status), cache: metrics.cache }, 1);
+
+    const seconds = metrics.durationMs / 1000;
+    for (const bucket of buckets) {
+      const within = seconds <= bucket ? 1 : 0;
+      add('duration_seconds', '_bucket', { format, le: String(bucket) }, within);
+    }
+    add('duration_seconds', '_bucket', { format, le: '+Inf' }, 1);
+    add('duration_seconds', '_sum', { format }, seconds);
+    add('duration_seconds', '_count', { format }, 1);
+
+    for (const [phase, duration] of Object.entries(metrics.phases)) {
+      add('phase_duration_seconds', '_sum', { phase }, duration / 1000);
+      add('phase_duration_seconds', '_count', { phase }, 1);
+    }
+
+    if (metrics.bytes !== undefined) add('bytes_total', '', { format }, metrics.bytes);
+    if (metrics.pageCount !== undefined) add('pages_total', '', {}, metrics.pageCount);
+    add('accordions_expanded_total', '', {}, metrics.accordionsExpanded ?? 0);
+    add('images_loaded_total', '', {}, metrics.imagesLoaded ?? 0);
+    add('images_failed_total', '', {}, metrics.imagesFailed ?? 0);
+  }
+
+  function toPrometheus() {
+    return families
+      .flatMap((family) => [
+        `# HELP ${prefix}_${family.name} ${family.help}`,
+        `# TYPE ${prefix}_${family.name} ${family.type}`,
+        ...[...samples.get(family.name)!].map(([key, value]) => `${key} ${value}`),
+      ])
+      .join('\n')
+      .concat('\n');
+  }
+
+  return {
+    record,
+    toPrometheus,
+    handler() {
+      return new Response(toPrometheus(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+      });
+    },
+  };
+}
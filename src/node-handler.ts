@@ -0,0 +1,126 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { PdfExportOptions, PresetName } from './types.js';
+import { createExportResponder, errorResponse } from './route-handler.js';
+import { PdfExportError } from './errors.js';
+
+/**
+ * Creates a request listener for Node's `http` server
+ *
+ * @example
+ * import { createServer } from 'node:http';
+ * import { createNodePdfExportHandler } from 'fumadocs-pdf-export';
+ *
+ * const exportPdf = createNodePdfExportHandler({ baseUrl: 'http://localhost:3000' });
+ * createServer((req, res) => {
+ *   if (req.url?.startsWith('/api/export-pdf')) return exportPdf(req, res);
+ *   // ...
+ * }).listen(8080);
+ */
+export function createNodePdfExportHandler(options?: PdfExportOptions | PresetName) {
+  const respond = createExportResponder(options);
+  const trustProxy = typeof options === 'object' && options.trustProxy === true;
+
+  return async function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    await sendResponse(res, await respondTo(respond, req, trustProxy));
+  };
+}
+
+/**
+ * Creates a Next.js Pages Router API route handler for PDF export
+ *
+ * @example
+ * // pages/api/export-pdf.ts
+ * import { createPagesPdfExportHandler } from 'fumadocs-pdf-export';
+ *
+ * export default createPagesPdfExportHandler({ baseUrl: 'http://localhost:3000' });
+ */
+export function createPagesPdfExportHandler(options?: PdfExportOptions | PresetName) {
+  const handler = createNodePdfExportHandler(options);
+
+  return async function pagesHandler(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+    await handler(req, res);
+  };
+}
+
+/**
+ * Creates Express/Connect middleware for PDF export. Unexpected errors are passed to `next`.
+ *
+ * @example
+ * import express from 'express';
+ * import { createPdfExportMiddleware } from 'fumadocs-pdf-export';
+ *
+ * const app = express();
+ * app.get(
+ *   '/api/export-pdf',
+ *   createPdfExportMiddleware({ preset: 'docusaurus', baseUrl: 'http://localhost:3000' })
+ * );
+ */
+export function createPdfExportMiddleware(options?: PdfExportOptions | PresetName) {
+  const respond = createExportResponder(options);
+  const trustProxy = typeof options === 'object' && options.trustProxy === true;
+
+  return function middleware(
+    req: IncomingMessage & { originalUrl?: string },
+    res: ServerResponse,
+    next: (error?: unknown) => void
+  ): void {
+    respondTo(respond, req, trustProxy, req.originalUrl)
+      .then((response) => sendResponse(res, response))
+      .catch(next);
+  };
+}
+
+/**
+ * Run the export for a Node request, answering 400 when it has no valid URL
+ */
+async function respondTo(
+  respond: ReturnType<typeof createExportResponder>,
+  req: IncomingMessage,
+  trustProxy: boolean,
+  path?: string
+) {
+  let request: Request;
+  try {
+    request = toRequest(req, trustProxy, path);
+  } catch {
+    return errorResponse(new PdfExportError('invalid-request', 'Invalid request URL'), 'none');
+  }
+  return respond(request);
+}
+
+/**
+ * Convert a Node request into a Web `Request`. The body is not forwarded: exports are GETs.
+ * Unless a proxy is trusted, the socket address is set as `request.ip`, which client
+ * identification prefers over forwarding headers.
+ */
+export function toRequest(req: IncomingMessage, trustProxy: boolean, path = req.url ?? '/') {
+  const encrypted = 'encrypted' in req.socket && req.socket.encrypted === true;
+  // Concatenate rather than resolve, so a `//host` path cannot change the URL's origin
+  const protocol = encrypted ? 'https' : 'http';
+  const url = new URL(`${protocol}://${req.headers.host ?? 'localhost'}${path}`);
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach((item) => headers.append(name, item));
+    else if (value !== undefined) headers.set(name, value);
+  }
+
+  // Behind a proxy that sent no `x-forwarded-for`, fall back to the socket address
+  const { remoteAddress } = req.socket;
+  if (trustProxy && !headers.has('x-forwarded-for') && !headers.has('x-real-ip') && remoteAddress) {
+    headers.set('x-real-ip', remoteAddress);
+  }
+
+  const request = new Request(url, { method: req.method, headers });
+  return trustProxy ? request : Object.assign(request, { ip: remoteAddress });
+}
+
+/**
+ * Write a Web `Response` to a Node response
+ */
+async function sendResponse(res: ServerResponse, response: Response) {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(response.body ? Buffer.from(await response.arrayBuffer()) : undefined);
+}
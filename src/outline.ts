@@ -0,0 +1,289 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+  type PDFPage,
+} from 'pdf-lib';
+import type { HeadingLevel, OutlineOptions } from './types.js';
+import type { RenderPage } from './renderer.js';
+
+const defaultOutlineLevels: HeadingLevel[] = [1, 2, 3, 4];
+
+/**
+ * A heading collected from the cleaned page
+ */
+export interface OutlineHeading {
+  id: string;
+  level: number;
+  title: string;
+}
+
+/**
+ * A node of the PDF outline tree
+ */
+export interface OutlineEntry {
+  title: string;
+  dest: PDFArray;
+  children: OutlineEntry[];
+}
+
+/**
+ * Collect headings for the outline and prepare in-page anchors.
+ *
+ * Chrome only emits PDF named destinations for elements that are the target
+ * of a same-document link, so a hidden link is added for every outline heading.
+ * Same-page links are rewritten to bare fragments so they jump inside the PDF.
+ */
+export async function prepareOutline(
+  page: RenderPage,
+  config: { outline: false | OutlineOptions; internalLinks: boolean }
+): Promise<OutlineHeading[]> {
+  const levels = config.outline ? (config.outline.levels ?? defaultOutlineLevels) : [];
+
+  return page.evaluate(
+    (levels, internalLinks) => {
+      if (internalLinks) {
+        document.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((link) => {
+          const url = new URL(link.href, location.href);
+          if (
+            url.hash &&
+            url.origin === location.origin &&
+            url.pathname.replace(/\/$/, '') === location.pathname.replace(/\/$/, '')
+          ) {
+            link.setAttribute('href', url.hash);
+          }
+        });
+      }
+
+      if (levels.length === 0) return [];
+
+      const usedIds = new Set(Array.from(document.querySelectorAll('[id]')).map((el) => el.id));
+      const selector = levels.map((level) => `h${level}`).join(', ');
+      const headings: { id: string; level: number; title: string }[] = [];
+
+      document.body.querySelectorAll<HTMLElement>(selector).forEach((heading) => {
+        const title = heading.textContent?.trim() ?? '';
+        if (!title) return;
+
+        // Give headings without an id a unique slug
+        if (!heading.id) {
+          const base =
+            title
+              .toLowerCase()
+              .replace(/[^a-z0-9]+/g, '-')
+              .replace(/^-+|-+$/g, '') || 'section';
+          let id = base;
+          for (let i = 1; usedIds.has(id); i++) id = `${base}-${i}`;
+          usedIds.add(id);
+          heading.id = id;
+        }
+
+        headings.push({ id: heading.id, level: Number(heading.tagName.slice(1)), title });
+      });
+
+      const anchors = document.createElement('div');
+      anchors.setAttribute('aria-hidden', 'true');
+      anchors.style.cssText =
+        'position: absolute; top: 0; left: 0; width: 1px; height: 1px; overflow: hidden;';
+      headings.forEach((heading) => {
+        const link = document.createElement('a');
+        link.setAttribute('href', `#${heading.id}`);
+        anchors.appendChild(link);
+      });
+      document.body.appendChild(anchors);
+
+      return headings;
+    },
+    levels,
+    config.internalLinks
+  );
+}
+
+/**
+ * Add an outline built from the collected headings to a single-page export
+ */
+export async function addOutline(pdf: Uint8Array, headings: OutlineHeading[]) {
+  if (headings.length === 0) return pdf;
+
+  const doc = await PDFDocument.load(pdf);
+  const entries = buildHeadingTree(headings, readNamedDestinations(doc));
+  if (entries.length === 0) return pdf;
+
+  writeOutline(doc, entries);
+  return doc.save();
+}
+
+/**
+ * Nest headings by level, skipping any Chrome did not emit a destination for
+ */
+export function buildHeadingTree(headings: OutlineHeading[], dests: Map<string, PDFArray>) {
+  const root: OutlineEntry[] = [];
+  const stack: { level: number; entry: OutlineEntry }[] = [];
+
+  for (const heading of headings) {
+    const dest = dests.get(heading.id);
+    if (!dest) continue;
+
+    const entry: OutlineEntry = { title: heading.title, dest, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= heading.level) {
+      stack.pop();
+    }
+    (stack[stack.length - 1]?.entry.children ?? root).push(entry);
+    stack.push({ level: heading.level, entry });
+  }
+
+  return root;
+}
+
+/**
+ * Write an outline tree into the document catalog
+ */
+export function writeOutline(doc: PDFDocument, entries: OutlineEntry[]) {
+  const context = doc.context;
+  const rootRef = context.nextRef();
+  const { first, last, count } = writeOutlineItems(doc, entries, rootRef);
+
+  context.assign(
+    rootRef,
+    context.obj({ Type: 'Outlines', First: first, Last: last, Count: count })
+  );
+  doc.catalog.set(PDFName.of('Outlines'), rootRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+function writeOutlineItems(doc: PDFDocument, entries: OutlineEntry[], parent: PDFRef) {
+  const context = doc.context;
+  const refs = entries.map(() => context.nextRef());
+  let count = 0;
+
+  entries.forEach((entry, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: parent,
+      Dest: entry.dest,
+    });
+
+    if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1]!);
+    if (index < refs.length - 1) item.set(PDFName.of('Next'), refs[index + 1]!);
+
+    if (entry.children.length > 0) {
+      const children = writeOutlineItems(doc, entry.children, refs[index]!);
+      item.set(PDFName.of('First'), children.first);
+      item.set(PDFName.of('Last'), children.last);
+      item.set(PDFName.of('Count'), context.obj(children.count));
+      count += children.count;
+    }
+
+    context.assign(refs[index]!, item);
+    count += 1;
+  });
+
+  return { first: refs[0]!, last: refs[refs.length - 1]!, count };
+}
+
+/**
+ * Read named destinations from both the catalog `/Dests` dictionary
+ * and the `/Names` destination name tree
+ */
+export function readNamedDestinations(doc: PDFDocument) {
+  const dests = new Map<string, PDFArray>();
+  const context = doc.context;
+
+  const resolveDest = (value: unknown) => {
+    const resolved = value instanceof PDFRef ? context.lookup(value) : value;
+    if (resolved instanceof PDFArray) return resolved;
+    if (resolved instanceof PDFDict) return resolved.lookupMaybe(PDFName.of('D'), PDFArray);
+    return undefined;
+  };
+
+  const catalogDests = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  catalogDests?.entries().forEach(([name, value]) => {
+    const dest = resolveDest(value);
+    if (dest) dests.set(name.decodeText(), dest);
+  });
+
+  const walkNameTree = (node: PDFDict | undefined) => {
+    if (!node) return;
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    if (names) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const key = names.lookup(i);
+        const dest = resolveDest(names.get(i + 1));
+        if (dest && (key instanceof PDFString || key instanceof PDFHexString)) {
+          dests.set(key.decodeText(), dest);
+        }
+      }
+    }
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    kids?.asArray().forEach((kid) => walkNameTree(context.lookupMaybe(kid, PDFDict)));
+  };
+  walkNameTree(
+    doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  );
+
+  return dests;
+}
+
+/**
+ * Copy named destinations of a source document into a merged document.
+ * Names are prefixed to stay unique across merged documents, and the link
+ * annotations on the copied pages are rewritten to the prefixed names.
+ *
+ * @returns Destinations in the merged document, keyed by their original name
+ */
+export function copyNamedDestinations(
+  target: PDFDocument,
+  source: PDFDocument,
+  copiedPages: PDFPage[],
+  prefix: string
+) {
+  const context = target.context;
+  const pageRefs = new Map<PDFRef, PDFRef>();
+  source.getPages().forEach((page, index) => pageRefs.set(page.ref, copiedPages[index]!.ref));
+
+  let targetDests = target.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  if (!targetDests) {
+    targetDests = context.obj({});
+    target.catalog.set(PDFName.of('Dests'), context.register(targetDests));
+  }
+
+  const copied = new Map<string, PDFArray>();
+  for (const [name, dest] of readNamedDestinations(source)) {
+    const pageRef = dest.get(0);
+    const mappedRef = pageRef instanceof PDFRef ? pageRefs.get(pageRef) : undefined;
+    if (!mappedRef) continue;
+
+    const copy = context.obj([mappedRef, ...dest.asArray().slice(1)]);
+    targetDests.set(PDFName.of(`${prefix}${name}`), copy);
+    copied.set(name, copy);
+  }
+
+  const renameTarget = (value: unknown) => {
+    if (value instanceof PDFName) return PDFName.of(`${prefix}${value.decodeText()}`);
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      return PDFName.of(`${prefix}${value.decodeText()}`);
+    }
+    return undefined;
+  };
+
+  copiedPages.forEach((page) => {
+    const annots = page.node.Annots();
+    annots?.asArray().forEach((ref) => {
+      const annot = context.lookupMaybe(ref, PDFDict);
+      if (!annot) return;
+
+      const dest = renameTarget(annot.lookup(PDFName.of('Dest')));
+      if (dest) annot.set(PDFName.of('Dest'), dest);
+
+      const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+      const actionDest = action && renameTarget(action.lookup(PDFName.of('D')));
+      if (action && actionDest) action.set(PDFName.of('D'), actionDest);
+    });
+  });
+
+  return copied;
+}
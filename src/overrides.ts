@@ -0,0 +1,113 @@
+import type {
+  MarginPreset,
+  PageOrientation,
+  PaperFormat,
+  PdfLayout,
+  RequestExportOptions,
+  RequestOverride,
+} from './types.js';
+import { colorSchemes } from './theme.js';
+import { outputFormats } from './formats.js';
+import { PdfExportError } from './errors.js';
+
+/**
+ * Margins in pixels of each `?margins=` preset
+ */
+export const marginPresets: Record<
+  MarginPreset,
+  { top: number; right: number; bottom: number; left: number }
+> = {
+  none: { top: 0, right: 0, bottom: 0, left: 0 },
+  narrow: { top: 15, right: 15, bottom: 15, left: 15 },
+  normal: { top: 30, right: 30, bottom: 30, left: 30 },
+  wide: { top: 60, right: 60, bottom: 60, left: 60 },
+};
+
+/**
+ * Parser of one query parameter: the options a valid value sets, or `undefined`
+ */
+interface OverrideField {
+  /**
+   * Accepted values, for error messages
+   */
+  expected: string;
+  parse(value: string): RequestExportOptions | undefined;
+}
+
+function oneOf<T extends string>(
+  values: readonly T[],
+  apply: (value: T) => RequestExportOptions
+): OverrideField {
+  return {
+    expected: `one of ${values.join(', ')}`,
+    parse: (value) =>
+      (values as readonly string[]).includes(value) ? apply(value as T) : undefined,
+  };
+}
+
+function flag(apply: (value: boolean) => RequestExportOptions): OverrideField {
+  return {
+    expected: 'true or false',
+    parse: (value) => (value === 'true' || value === 'false' ? apply(value === 'true') : undefined),
+  };
+}
+
+const overrideFields: Record<RequestOverride, OverrideField> = {
+  layout: oneOf<PdfLayout>(['continuous', 'paginated'], (layout) => ({ layout })),
+  paperFormat: oneOf<PaperFormat>(['A4', 'Letter', 'Legal'], (paperFormat) => ({ paperFormat })),
+  orientation: oneOf<PageOrientation>(['portrait', 'landscape'], (orientation) => ({
+    orientation,
+  })),
+  margins: oneOf(Object.keys(marginPresets) as MarginPreset[], (preset) => ({
+    margins: marginPresets[preset],
+  })),
+  colorScheme: oneOf(colorSchemes, (colorScheme) => ({ colorScheme })),
+  includeImages: flag((includeImages) => ({ includeImages })),
+  includeSubsections: flag((includeSubsections) => ({ includeSubsections })),
+  expandAccordions: flag((expandAccordions) => ({ expandAccordions })),
+  scale: {
+    expected: 'a number from 0.1 to 2',
+    parse: (value) => {
+      const scale = Number(value);
+      return value.trim() !== '' && scale >= 0.1 && scale <= 2 ? { scale } : undefined;
+    },
+  },
+  format: oneOf(outputFormats, (format) => ({ format })),
+};
+
+/**
+ * Query parameters that can override options, whether or not a handler allows them
+ */
+export const requestOverrideNames = Object.keys(overrideFields) as RequestOverride[];
+
+/**
+ * Read the options a request overrides in its query string.
+ * Throws an `invalid-request` error for a parameter that is not in `allowed` or has an invalid value.
+ */
+export function parseRequestOverrides(
+  searchParams: URLSearchParams,
+  allowed: RequestOverride[]
+): RequestExportOptions {
+  let options: RequestExportOptions = {};
+
+  for (const name of requestOverrideNames) {
+    const value = searchParams.get(name);
+    if (value === null) continue;
+
+    if (!allowed.includes(name)) {
+      throw new PdfExportError('invalid-request', `The ${name} parameter is not allowed`);
+    }
+
+    const field = overrideFields[name];
+    const parsed = field.parse(value);
+    if (!parsed) {
+      throw new PdfExportError(
+        'invalid-request',
+        `Invalid ${name} parameter "${value}": expected ${field.expected}`
+      );
+    }
+    options = { ...options, ...parsed };
+  }
+
+  return options;
+}
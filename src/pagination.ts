@@ -0,0 +1,149 @@
+import type { PageOrientation, PaperFormat, PdfLayout } from './types.js';
+import { buildHeaderFooter, getPageDetails } from './header-footer.js';
+import type { RenderPage } from './renderer.js';
+
+/**
+ * Break rules injected in paginated layout.
+ * Scoped to the `data-pdf-layout` attribute so they never apply to continuous exports.
+ */
+const paginatedStyles = `
+@media print {
+  html[data-pdf-layout='paginated'] h1,
+  html[data-pdf-layout='paginated'] h2,
+  html[data-pdf-layout='paginated'] h3,
+  html[data-pdf-layout='paginated'] h4,
+  html[data-pdf-layout='paginated'] h5,
+  html[data-pdf-layout='paginated'] h6 {
+    break-after: avoid;
+    page-break-after: avoid;
+    break-inside: avoid;
+  }
+
+  html[data-pdf-layout='paginated'] pre,
+  html[data-pdf-layout='paginated'] figure,
+  html[data-pdf-layout='paginated'] img,
+  html[data-pdf-layout='paginated'] tr,
+  html[data-pdf-layout='paginated'] [role='alert'],
+  html[data-pdf-layout='paginated'] [role='note'],
+  html[data-pdf-layout='paginated'] [data-callout],
+  html[data-pdf-layout='paginated'] .theme-admonition,
+  html[data-pdf-layout='paginated'] .nextra-callout {
+    break-inside: avoid;
+    page-break-inside: avoid;
+  }
+
+  html[data-pdf-layout='paginated'] thead {
+    display: table-header-group;
+  }
+
+  html[data-pdf-layout='paginated'] tfoot {
+    display: table-footer-group;
+  }
+
+  html[data-pdf-layout='paginated'] p,
+  html[data-pdf-layout='paginated'] li {
+    orphans: 3;
+    widows: 3;
+  }
+}
+`;
+
+/**
+ * Paper sizes in CSS pixels (96 per inch), portrait
+ */
+const paperSizes: Record<PaperFormat, { width: number; height: number }> = {
+  A4: { width: 794, height: 1123 },
+  Letter: { width: 816, height: 1056 },
+  Legal: { width: 816, height: 1344 },
+};
+
+/**
+ * Width the content is laid out at when printed in paginated layout:
+ * the paper width in the chosen orientation, minus the margins, divided by the scale
+ */
+export function printableWidth(config: {
+  paperFormat: PaperFormat;
+  orientation: PageOrientation;
+  margins: { right?: number; left?: number };
+  scale: number;
+}) {
+  const paper = paperSizes[config.paperFormat];
+  const width = config.orientation === 'landscape' ? paper.height : paper.width;
+  const content = width - (config.margins.left ?? 0) - (config.margins.right ?? 0);
+  return Math.round(content / config.scale);
+}
+
+/**
+ * Mark the document with the active layout and inject layout-specific styles
+ */
+export async function applyLayout(page: RenderPage, layout: PdfLayout) {
+  await page.evaluate((value) => {
+    document.documentElement.dataset.pdfLayout = value;
+  }, layout);
+
+  if (layout === 'paginated') {
+    await page.addStyleTag(paginatedStyles);
+  }
+}
+
+/**
+ * Render the prepared page to a PDF buffer using the configured layout,
+ * with the header and footer templates filled in for this page
+ */
+export async function renderPdf(
+  page: RenderPage,
+  config: {
+    contentSelector: string;
+    layout: PdfLayout;
+    paperFormat: PaperFormat;
+    orientation: PageOrientation;
+    pageWidth: number;
+    margins: { top?: number; right?: number; bottom?: number; left?: number };
+    scale: number;
+    accessibility: boolean;
+    headerTemplate?: string;
+    footerTemplate?: string;
+    headerFooterHeight: number;
+    docVersion?: string;
+  }
+) {
+  const headerFooter = buildHeaderFooter(
+    config,
+    await getPageDetails(page, config.contentSelector)
+  );
+
+  if (config.layout === 'paginated') {
+    return page.pdf({
+      format: config.paperFormat,
+      landscape: config.orientation === 'landscape',
+      scale: config.scale,
+      tagged: config.accessibility,
+      printBackground: true,
+      ...headerFooter,
+      preferCSSPageSize: false,
+    });
+  }
+
+  // Calculate content height
+  const contentHeight = await page.evaluate((selector) => {
+    const content = document.querySelector(selector) as HTMLElement | null;
+    if (content) {
+      content.offsetHeight; // Force reflow
+      const rect = content.getBoundingClientRect();
+      return rect.height + 40;
+    }
+    return document.body.scrollHeight;
+  }, config.contentSelector);
+
+  // The page keeps its layout width, so a scaled page shrinks or grows in both directions
+  return page.pdf({
+    width: config.pageWidth * config.scale,
+    // Room for the margins, which grow when a header or footer is shown
+    height: contentHeight * config.scale + headerFooter.margin.top + headerFooter.margin.bottom,
+    scale: config.scale,
+    tagged: config.accessibility,
+    printBackground: true,
+    ...headerFooter,
+    preferCSSPageSize: false,
+  });
+}
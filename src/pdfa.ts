@@ -0,0 +1,121 @@
+import { randomBytes } from 'node:crypto';
+import { PDFDict, PDFHexString, PDFName, PDFNumber, PDFString, type PDFDocument } from 'pdf-lib';
+
+const outputCondition = 'sRGB IEC61966-2.1';
+
+/**
+ * Make a loaded PDF PDF/A-2b compatible: an sRGB output intent, a document ID and
+ * printable annotations. The `pdfaid` XMP entries are written with the metadata.
+ * Chrome already embeds every font, and PDF/A-2 allows its transparency groups
+ * once an output intent is present.
+ */
+export function applyPdfAProfile(doc: PDFDocument) {
+  const { context } = doc;
+
+  const profile = context.register(context.flateStream(createSrgbProfile(), { N: 3 }));
+  const intent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of(outputCondition),
+    Info: PDFString.of(outputCondition),
+    DestOutputProfile: profile,
+  });
+  doc.catalog.set(PDFName.of('OutputIntents'), context.obj([intent]));
+
+  const id = PDFHexString.of(randomBytes(16).toString('hex'));
+  context.trailerInfo.ID = context.obj([id, id]);
+
+  // Annotations must be printed and never hidden
+  for (const page of doc.getPages()) {
+    const annotations = page.node.Annots();
+    for (let index = 0; index < (annotations?.size() ?? 0); index++) {
+      const annotation = annotations!.lookup(index);
+      if (annotation instanceof PDFDict) annotation.set(PDFName.of('F'), PDFNumber.of(4));
+    }
+  }
+}
+
+/**
+ * Compact ICC v2 display profile with the sRGB primaries (D50-adapted) and the sRGB
+ * transfer curve, sampled as ICC v2 has no parametric curves. Embedded as the PDF/A
+ * output intent.
+ */
+function createSrgbProfile() {
+  const text = (value: string) => Buffer.from(`${value}\0`, 'latin1');
+  const fixed = (value: number) => Math.round(value * 65536);
+
+  const xyz = (x: number, y: number, z: number) => {
+    const tag = Buffer.alloc(20);
+    tag.write('XYZ ', 0, 'latin1');
+    tag.writeInt32BE(fixed(x), 8);
+    tag.writeInt32BE(fixed(y), 12);
+    tag.writeInt32BE(fixed(z), 16);
+    return tag;
+  };
+
+  const description = Buffer.concat([
+    Buffer.from('desc\0\0\0\0', 'latin1'),
+    Buffer.from([0, 0, 0, outputCondition.length + 1]),
+    text(outputCondition),
+    // Empty Unicode and ScriptCode descriptions
+    Buffer.alloc(4 + 4 + 2 + 1 + 67),
+  ]);
+  const copyright = Buffer.concat([Buffer.from('text\0\0\0\0', 'latin1'), text('No copyright')]);
+  // IEC 61966-2.1: linear near black, a 2.4 power with an offset above
+  const samples = 1024;
+  const curve = Buffer.alloc(12 + samples * 2);
+  curve.write('curv', 0, 'latin1');
+  curve.writeUInt32BE(samples, 8);
+  for (let index = 0; index < samples; index++) {
+    const value = index / (samples - 1);
+    const linear = value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+    curve.writeUInt16BE(Math.round(linear * 65535), 12 + index * 2);
+  }
+
+  const tags: [string, Buffer][] = [
+    ['desc', description],
+    ['cprt', copyright],
+    ['wtpt', xyz(0.9642, 1, 0.8249)],
+    ['rXYZ', xyz(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyz(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyz(0.1431, 0.0606, 0.7141)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  const pad = (buffer: Buffer) =>
+    Buffer.concat([buffer, Buffer.alloc((4 - (buffer.length % 4)) % 4)]);
+  const table = Buffer.alloc(4 + tags.length * 12);
+  table.writeUInt32BE(tags.length, 0);
+
+  // Tags with the same data (the three transfer curves) share one copy
+  const data: Buffer[] = [];
+  const offsets = new Map<Buffer, number>();
+  let offset = 128 + table.length;
+  tags.forEach(([signature, tag], index) => {
+    if (!offsets.has(tag)) {
+      offsets.set(tag, offset);
+      data.push(pad(tag));
+      offset += pad(tag).length;
+    }
+    table.write(signature, 4 + index * 12, 'latin1');
+    table.writeUInt32BE(offsets.get(tag)!, 8 + index * 12);
+    table.writeUInt32BE(tag.length, 12 + index * 12);
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write('mntrRGB XYZ ', 12, 'latin1');
+  const now = new Date();
+  [now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate(), 0, 0, 0].forEach((part, index) =>
+    header.writeUInt16BE(part, 24 + index * 2)
+  );
+  header.write('acsp', 36, 'latin1');
+  header.writeInt32BE(fixed(0.9642), 68);
+  header.writeInt32BE(fixed(1), 72);
+  header.writeInt32BE(fixed(0.8249), 76);
+
+  return new Uint8Array(Buffer.concat([header, table, ...data]));
+}
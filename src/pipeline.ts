@@ -0,0 +1,801 @@
+import type {
+  ColorScheme,
+  ContentFittingOptions,
+  DebugReport,
+  ExportPhase,
+  ExportProgress,
+  PdfExportOptions,
+  PresetName,
+  ReadinessOptions,
+  ReadinessStep,
+  TabsMode,
+  WatermarkOptions,
+} from './types.js';
+import { presets } from './types.js';
+import { applyLayout, printableWidth } from './pagination.js';
+import { prepareOutline } from './outline.js';
+import { applyWatermark } from './watermark.js';
+import { applyColorScheme, applyPrintPalette } from './theme.js';
+import { extractMetadata } from './metadata.js';
+import { runTransforms } from './hooks.js';
+import { extractSection } from './section.js';
+import { fitContent } from './fitting.js';
+import { prepareAccessibleContent } from './accessibility.js';
+import { consoleLogger, countImages, type MetricsRecorder } from './metrics.js';
+import { captureStage } from './debug.js';
+import { ExportSecurityError, guardRequests, type RequestPolicy } from './security.js';
+import { PdfExportError, pageStatusError } from './errors.js';
+import {
+  exposeSettledCheck,
+  waitForImages,
+  waitForLayout,
+  waitForPageReady,
+  waitForSettled,
+  type SettledWindow,
+} from './readiness.js';
+import type { RenderPage } from './renderer.js';
+
+export const defaultOptions: Required<
+  Omit<
+    PdfExportOptions,
+    | 'preset'
+    | 'puppeteerOptions'
+    | 'beforePdfGeneration'
+    | 'hooks'
+    | 'onMetrics'
+    | 'readiness'
+    | 'fitting'
+    | 'resolvePages'
+    | 'bundle'
+    | 'browserPool'
+    | 'renderer'
+    | 'queue'
+    | 'identifyClient'
+    | 'trustProxy'
+    | 'cache'
+    | 'baseUrl'
+    | 'allowedOrigins'
+    | 'allowedPathPrefixes'
+    | 'allowedSubresourceOrigins'
+    | 'jobs'
+    | 'headerTemplate'
+    | 'footerTemplate'
+    | 'docVersion'
+    | 'watermark'
+    | 'metadata'
+    | 'section'
+  >
+> = {
+  contentSelector: 'article',
+  removeSelectors: ['#nd-sidebar', '#nd-toc', 'nav', '.print-hidden'],
+  expandAccordions: true,
+  accordionTriggerSelectors: [
+    'button[data-state="closed"]',
+    '[data-state="closed"] > button',
+    '[data-state="closed"][role="button"]',
+  ],
+  accordionContentSelectors: ['[data-radix-accordion-content]', '[data-radix-collapsible-content]'],
+  expandTabs: 'all',
+  tabContainerSelectors: ['div:has(> [role="tablist"])'],
+  tabTriggerSelectors: ['[role="tab"]'],
+  tabPanelSelectors: ['[role="tabpanel"]'],
+  triggerLazyImages: true,
+  includeImages: true,
+  includeSubsections: true,
+  colorScheme: 'light',
+  themeAttribute: 'class',
+  themeStorageKey: 'theme',
+  layout: 'continuous',
+  format: 'pdf',
+  paperFormat: 'A4',
+  orientation: 'portrait',
+  pageWidth: 850,
+  margins: { top: 30, right: 30, bottom: 30, left: 30 },
+  scale: 1,
+  accessibility: false,
+  pdfA: false,
+  headerFooterHeight: 36,
+  outline: { levels: [1, 2, 3, 4] },
+  internalLinks: true,
+  blockPrivateNetwork: true,
+  allowRequestOverrides: ['colorScheme', 'format'],
+  debug: false,
+  timeout: 30000,
+  errorDetails: process.env.NODE_ENV === 'production' ? 'none' : 'message',
+  logger: consoleLogger,
+};
+
+const defaultReadiness: Required<ReadinessOptions> = {
+  networkIdle: true,
+  fonts: true,
+  images: true,
+  quietPeriod: 200,
+  waitForSelector: [],
+  waitForFunction: [],
+  stepTimeout: 5000,
+};
+
+// Removed during cleanup when `includeImages` is off
+const imageSelectors = ['figure:has(img)', 'picture', 'img'];
+
+const defaultFitting: Required<ContentFittingOptions> = {
+  code: 'wrap',
+  continuationMarker: '↪',
+  lineNumbers: false,
+  tables: 'shrink',
+  expandScrollAreas: true,
+  codeChromeSelectors: [
+    'pre button',
+    'figure:has(pre) button',
+    '.theme-code-block [class*="buttonGroup"]',
+    '.nextra-code button',
+    'button[aria-label*="copy" i]',
+    '.copy-button',
+  ],
+};
+
+/**
+ * Resolved handler configuration: defaults merged with user options
+ */
+export type ResolvedPdfExportOptions = ReturnType<typeof resolveOptions>;
+
+/**
+ * Merge user options (or a preset name) with the defaults
+ */
+export function resolveOptions(options?: PdfExportOptions | PresetName) {
+  const resolvedOptions: PdfExportOptions =
+    typeof options === 'string' ? presetOptions(options) : options || {};
+  const preset = resolvedOptions.preset ? presetOptions(resolvedOptions.preset) : {};
+
+  return {
+    ...defaultOptions,
+    ...preset,
+    ...resolvedOptions,
+    margins: { ...defaultOptions.margins, ...resolvedOptions.margins },
+    readiness: { ...defaultReadiness, ...resolvedOptions.readiness },
+    fitting: { ...defaultFitting, ...resolvedOptions.fitting },
+  };
+}
+
+/**
+ * Copies a preset so callers can't mutate its selector arrays
+ */
+function presetOptions(name: PresetName): PdfExportOptions {
+  const preset = presets[name];
+  return {
+    ...preset,
+    removeSelectors: [...preset.removeSelectors],
+    accordionTriggerSelectors: [...preset.accordionTriggerSelectors],
+    accordionContentSelectors: [...preset.accordionContentSelectors],
+    tabContainerSelectors: [...preset.tabContainerSelectors],
+    tabTriggerSelectors: [...preset.tabTriggerSelectors],
+    tabPanelSelectors: [...preset.tabPanelSelectors],
+  };
+}
+
+/**
+ * Per-request state shared by every page rendered for that request
+ */
+export interface PageSession {
+  /**
+   * Request that started the export, passed to hooks
+   */
+  request: Request;
+
+  /**
+   * Cookies forwarded from the incoming request
+   */
+  cookies: ReturnType<typeof parseCookies>;
+
+  /**
+   * Origins the browser may reach while rendering
+   */
+  policy: RequestPolicy;
+
+  /**
+   * Receives progress updates as the pipeline moves through its phases
+   */
+  onProgress?: (progress: ExportProgress) => void;
+
+  /**
+   * Color scheme for this request
+   */
+  colorScheme: ColorScheme;
+
+  /**
+   * Watermark resolved for this request
+   */
+  watermark?: WatermarkOptions;
+
+  /**
+   * Collects phase timings and counters for `onMetrics` and `Server-Timing`
+   */
+  metrics?: MetricsRecorder;
+
+  /**
+   * Report filled in with what the pipeline did, in debug mode
+   */
+  debug?: DebugReport;
+}
+
+// Rough share of the total render time completed when each phase starts
+const phaseProgress: Record<ExportPhase, number> = {
+  queued: 0,
+  navigating: 5,
+  'expanding-accordions': 35,
+  'expanding-tabs': 42,
+  'loading-images': 50,
+  cleaning: 70,
+  rendering: 80,
+  done: 100,
+  failed: 100,
+};
+
+/**
+ * Report that the pipeline entered a phase, which also starts timing it
+ */
+export function reportPhase(
+  session: Pick<PageSession, 'onProgress' | 'metrics'>,
+  phase: ExportPhase
+) {
+  session.metrics?.enter(phase);
+  session.onProgress?.({ phase, progress: phaseProgress[phase] });
+}
+
+/**
+ * Navigate to a page and run the cleanup pipeline on it, leaving it ready for `page.pdf()`
+ *
+ * @returns Headings to build the PDF outline from, the metadata found on the page and,
+ * with the `accessibility` option, the accessibility issues found
+ */
+export async function preparePage(
+  page: RenderPage,
+  pageUrl: string,
+  config: ResolvedPdfExportOptions,
+  session: PageSession
+) {
+  // Forward cookies for authentication
+  await page.setCookies(session.cookies);
+
+  const requests = await guardRequests(page, session.policy);
+  await applyColorScheme(page, session.colorScheme, config);
+
+  const hookContext = { request: session.request, url: pageUrl };
+  await config.hooks?.beforeNavigate?.(page, hookContext);
+
+  reportPhase(session, 'navigating');
+  await page.setViewport({ width: config.pageWidth, height: 600 });
+  let response: { status: number } | null;
+  try {
+    response = await page.goto(pageUrl, {
+      timeout: config.timeout,
+      waitUntil: config.readiness.networkIdle ? 'networkidle' : 'load',
+    });
+  } catch (error) {
+    if (requests.blockedNavigation) {
+      throw new ExportSecurityError(`Navigation to ${requests.blockedNavigation} was blocked`, 403);
+    }
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new PdfExportError(
+        'navigation-timeout',
+        `The page did not finish loading within ${config.timeout / 1000}s`,
+        { cause: error }
+      );
+    }
+    throw new PdfExportError('page-error', 'The page could not be loaded', { cause: error });
+  }
+
+  if (response && response.status >= 400) {
+    throw pageStatusError(response.status, pageUrl);
+  }
+
+  // Steps that waited for the page, and whether any ran out of time
+  const readiness: ReadinessStep[] = [];
+  if (session.debug) session.debug.readiness = readiness;
+  await waitForPageReady(page, config.readiness, readiness);
+
+  // Read metadata while <head> and the full page are still intact
+  const extracted = await extractMetadata(page);
+  const metadata = { ...extracted, version: extracted.version ?? config.docVersion };
+
+  await config.hooks?.afterLoad?.(page, hookContext);
+  if (session.debug) await captureStage(page, session.debug, 'loaded');
+
+  const settle = () => waitForSettled(page, config.readiness, readiness);
+
+  // Expand accordions if enabled
+  if (config.expandAccordions) {
+    reportPhase(session, 'expanding-accordions');
+    const accordions = await expandAccordions(page, config.accordionTriggerSelectors, settle);
+    session.metrics?.count('accordionsExpanded', accordions.clicked);
+    if (session.debug) session.debug.accordions = accordions;
+  }
+
+  // Render every tab panel, or pin the first one
+  if (config.expandTabs !== 'selected') {
+    reportPhase(session, 'expanding-tabs');
+    await expandTabs(
+      page,
+      config.expandTabs,
+      {
+        container: config.tabContainerSelectors,
+        trigger: config.tabTriggerSelectors,
+        panel: config.tabPanelSelectors,
+        accordionTrigger: config.expandAccordions ? config.accordionTriggerSelectors : [],
+      },
+      config.readiness
+    );
+    await settle();
+  }
+
+  // Trigger lazy images if enabled; excluded images are removed during cleanup
+  if (config.includeImages) {
+    if (config.triggerLazyImages) {
+      reportPhase(session, 'loading-images');
+      await triggerLazyImages(page);
+    }
+    await waitForImages(page, config.readiness, readiness);
+    if (session.metrics || session.debug) {
+      const images = await countImages(page);
+      session.metrics?.count('imagesLoaded', images.loaded);
+      session.metrics?.count('imagesFailed', images.failed.length);
+      if (session.debug) session.debug.images = images;
+    }
+  }
+  if (session.debug) await captureStage(page, session.debug, 'expanded');
+
+  // Clean up page for PDF
+  reportPhase(session, 'cleaning');
+  const cleanup = await cleanupPageForPdf(page, config, session.colorScheme);
+  if (session.debug) Object.assign(session.debug, cleanup);
+  if (config.section) {
+    await extractSection(page, config.section, config.includeSubsections);
+  }
+  // Paginated pages print at the paper's content width, so fit to that rather than `pageWidth`
+  if (config.layout === 'paginated') {
+    await page.setViewport({ width: printableWidth(config), height: 600 });
+  }
+  await fitContent(page, config.fitting);
+  await waitForLayout(page, config.readiness, readiness);
+  if (session.debug) await captureStage(page, session.debug, 'cleaned');
+
+  // Run custom transformations in the page, then the Node-side hook
+  await runTransforms(page, config);
+  await config.hooks?.afterCleanup?.(page, hookContext);
+
+  const accessibility = config.accessibility
+    ? await prepareAccessibleContent(page, metadata.language)
+    : undefined;
+
+  // Apply layout-specific break rules
+  await applyLayout(page, config.layout);
+  await applyPrintPalette(page, session.colorScheme);
+
+  if (session.watermark) {
+    await applyWatermark(page, session.watermark, config.layout);
+  }
+
+  // Collect outline headings and point anchors inside the PDF
+  const headings = await prepareOutline(page, config);
+  if (session.debug) await captureStage(page, session.debug, 'final');
+
+  if (requests.privateResponse) {
+    throw new ExportSecurityError(
+      `${requests.privateResponse} was served from a private network address`,
+      403
+    );
+  }
+
+  return { headings, metadata, readiness, accessibility };
+}
+
+/**
+ * Parse cookie header into Puppeteer cookie format
+ */
+export function parseCookies(
+  cookieHeader: string,
+  domain: string,
+  isSecure: boolean,
+  baseUrl: string
+) {
+  return cookieHeader
+    .split(';')
+    .map((cookie) => {
+      const trimmed = cookie.trim();
+      if (!trimmed || !trimmed.includes('=')) return null;
+
+      const [name, ...valueParts] = trimmed.split('=');
+      const cookieName = name?.trim();
+      const cookieValue = valueParts.join('=');
+
+      if (!cookieName) return null;
+
+      // __Host- cookies: must have secure=true, path=/, NO domain
+      if (cookieName.startsWith('__Host-')) {
+        return {
+          name: cookieName,
+          value: cookieValue || '',
+          url: baseUrl,
+          path: '/',
+          secure: true,
+        };
+      }
+
+      // __Secure- cookies: must have secure=true
+      if (cookieName.startsWith('__Secure-')) {
+        return {
+          name: cookieName,
+          value: cookieValue || '',
+          url: baseUrl,
+          path: '/',
+          secure: true,
+        };
+      }
+
+      // Regular cookies
+      return {
+        name: cookieName,
+        value: cookieValue || '',
+        domain,
+        path: '/',
+        secure: isSecure,
+      };
+    })
+    .filter((cookie): cookie is NonNullable<typeof cookie> => cookie !== null);
+}
+
+/**
+ * Expand all accordions on the page
+ *
+ * @returns Passes that clicked triggers, and the triggers clicked across them
+ */
+export async function expandAccordions(
+  page: RenderPage,
+  selectors: string[],
+  settle: () => Promise<void>
+) {
+  const selectorString = selectors.join(', ');
+  let passes = 0;
+  let clicked = 0;
+
+  for (let i = 0; i < 5; i++) {
+    const expanded = await page.evaluate((sel) => {
+      const closedButtons = document.querySelectorAll(sel);
+      closedButtons.forEach((btn) => (btn as HTMLElement).click());
+      return closedButtons.length;
+    }, selectorString);
+
+    if (expanded === 0) break;
+    passes++;
+    clicked += expanded;
+    // Wait for the opened sections to render before looking for nested ones
+    await settle();
+  }
+
+  return { passes, clicked };
+}
+
+/**
+ * Expand tab groups and code groups.
+ * Inactive panels are often not mounted, so each tab is activated in turn and its panel
+ * copied once the DOM has settled; the group is then replaced with the labelled copies.
+ */
+export async function expandTabs(
+  page: RenderPage,
+  mode: Exclude<TabsMode, 'selected'>,
+  selectors: {
+    container: string[];
+    trigger: string[];
+    panel: string[];
+    accordionTrigger: string[];
+  },
+  readiness: Required<Pick<ReadinessOptions, 'quietPeriod' | 'stepTimeout'>>
+) {
+  await exposeSettledCheck(page);
+  await page.evaluate(
+    async ({ mode, container, trigger, panel, accordionTrigger, quietPeriod, stepTimeout }) => {
+      const containerSelector = container.join(', ');
+
+      // Let the framework render the panel: the next task, then until the DOM is quiet
+      const settle = async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (quietPeriod > 0) {
+          await (window as SettledWindow).__pdfExportSettled!(quietPeriod, stepTimeout);
+        }
+      };
+
+      // Radix activates tabs on mousedown, other libraries on click
+      const activate = (tab: HTMLElement) => {
+        tab.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, button: 0 }));
+        tab.dispatchEvent(new MouseEvent('mouseup', { bubbles: true, button: 0 }));
+        tab.click();
+      };
+
+      // Only triggers and panels of this group, not of nested groups
+      const own = (group: Element, selector: string) =>
+        Array.from(group.querySelectorAll<HTMLElement>(selector)).filter(
+          (element) => element.closest(containerSelector) === group
+        );
+
+      const activePanel = (group: Element) =>
+        own(group, panel.join(', ')).find(
+          (element) => !element.hidden && element.dataset.state !== 'inactive'
+        );
+
+      // Groups nested directly inside an element (not inside a deeper group)
+      const nestedGroups = (root: Element) => {
+        const parent = root.closest(containerSelector);
+        return Array.from(root.querySelectorAll(containerSelector)).filter(
+          (element) => element.parentElement?.closest(containerSelector) === parent
+        );
+      };
+
+      // Build the labelled copies of every panel. The live page is only read here, so
+      // the framework keeps managing it until the groups are replaced at the end.
+      const expandGroup = async (group: Element): Promise<HTMLElement | null> => {
+        const tabs = own(group, trigger.join(', '));
+        if (tabs.length === 0) return null;
+
+        const selected = activePanel(group);
+        const expanded = document.createElement('div');
+        expanded.dataset.pdfTabs = '';
+
+        for (const tab of tabs) {
+          activate(tab);
+          await settle();
+
+          const current = activePanel(group);
+          if (!current) continue;
+
+          // Open accordions inside the panel before copying it
+          if (accordionTrigger.length > 0) {
+            current
+              .querySelectorAll<HTMLElement>(accordionTrigger.join(', '))
+              .forEach((button) => button.click());
+            await settle();
+          }
+
+          // Expand groups nested in this panel first, then swap them into the copy
+          const inner = nestedGroups(current);
+          const innerExpanded: (HTMLElement | null)[] = [];
+          for (const nested of inner) innerExpanded.push(await expandGroup(nested));
+
+          const copy = current.cloneNode(true) as HTMLElement;
+          nestedGroups(copy).forEach((nested, index) => {
+            const replacement = innerExpanded[index];
+            if (replacement) nested.replaceWith(replacement);
+          });
+
+          copy.hidden = false;
+          copy.removeAttribute('data-state');
+          // Ids stay unique: only the panel selected on load keeps them, so links to it still work
+          if (current !== selected) {
+            copy.removeAttribute('id');
+            copy.querySelectorAll('[id]').forEach((element) => element.removeAttribute('id'));
+          }
+
+          const label = document.createElement('div');
+          label.dataset.pdfTabLabel = '';
+          label.textContent = tab.textContent?.trim() ?? '';
+          label.style.fontWeight = '600';
+          label.style.fontSize = '0.875em';
+          label.style.margin = '1em 0 0.25em';
+
+          expanded.append(label, copy);
+        }
+
+        return expanded.childElementCount > 0 ? expanded : null;
+      };
+
+      const groups = Array.from(document.querySelectorAll(containerSelector)).filter(
+        (group) => !group.parentElement?.closest(containerSelector)
+      );
+
+      if (mode === 'first') {
+        for (const group of groups) {
+          const first = own(group, trigger.join(', '))[0];
+          if (first) activate(first);
+        }
+        return;
+      }
+
+      const replacements: (HTMLElement | null)[] = [];
+      for (const group of groups) replacements.push(await expandGroup(group));
+      groups.forEach((group, index) => {
+        const replacement = replacements[index];
+        if (replacement) group.replaceWith(replacement);
+      });
+    },
+    { mode, ...selectors, quietPeriod: readiness.quietPeriod, stepTimeout: readiness.stepTimeout }
+  );
+}
+
+/**
+ * Scroll through page to trigger lazy-loaded images
+ */
+export async function triggerLazyImages(page: RenderPage) {
+  // Scroll through the page
+  await page.evaluate(async () => {
+    await new Promise<void>((resolve) => {
+      let totalHeight = 0;
+      const distance = 200;
+      const timer = setInterval(() => {
+        window.scrollBy(0, distance);
+        totalHeight += distance;
+        if (totalHeight >= document.body.scrollHeight + 500) {
+          clearInterval(timer);
+          window.scrollTo(0, 0);
+          resolve();
+        }
+      }, 50);
+    });
+  });
+
+  // Load every image eagerly; the readiness step then waits for them to decode
+  await page.evaluate(() => {
+    document.querySelectorAll('img').forEach((img) => {
+      img.removeAttribute('loading');
+      if (!img.complete) {
+        const src = img.src;
+        img.src = '';
+        img.src = src;
+      }
+    });
+  });
+}
+
+/**
+ * Clean up the page DOM for PDF generation
+ *
+ * @returns Elements matching the content selector, and the elements each remove selector removed
+ */
+export async function cleanupPageForPdf(
+  page: RenderPage,
+  config: ResolvedPdfExportOptions,
+  colorScheme: ColorScheme = config.colorScheme
+) {
+  const result = await page.evaluate(
+    (contentSelector, removeSelectors, accordionContentSelectors, colorScheme) => {
+      const matches = document.querySelectorAll(contentSelector);
+      const content = matches[0];
+      if (!content) return null;
+
+      // Keep the theme's own background in dark and auto mode, so text stays readable
+      const pageBackground = [document.body, document.documentElement]
+        .map((element) => getComputedStyle(element).backgroundColor)
+        .find((color) => color !== 'rgba(0, 0, 0, 0)' && color !== 'transparent');
+      const background =
+        colorScheme === 'light' || colorScheme === 'print' ? 'white' : pageBackground || 'white';
+
+      const contentClone = content.cloneNode(true) as HTMLElement;
+
+      // Clear body and add only content
+      document.body.innerHTML = '';
+      document.body.appendChild(contentClone);
+
+      // Reset styles
+      document.body.style.cssText = `
+        margin: 0;
+        padding: 0;
+        background: ${background};
+        width: 100%;
+        max-width: 100%;
+      `;
+      document.documentElement.style.cssText = `
+        margin: 0;
+        padding: 0;
+        background: ${background};
+      `;
+
+      contentClone.style.cssText = `
+        max-width: 100%;
+        width: 100%;
+        margin: 0;
+        padding: 0;
+        background: ${background};
+      `;
+
+      // Remove navigation elements
+      contentClone.querySelectorAll('[class*="grid-cols-2"]').forEach((el) => el.remove());
+      contentClone.querySelectorAll('[class*="@container"]').forEach((el) => {
+        if (el.querySelector('[class*="grid-cols-2"]') || el.querySelectorAll('a').length === 2) {
+          el.remove();
+        }
+      });
+
+      // Remove specified selectors
+      const removed = removeSelectors.map((selector) => {
+        const elements = contentClone.querySelectorAll(selector);
+        elements.forEach((el) => el.remove());
+        return { selector, count: elements.length };
+      });
+
+      // Fix fixed/sticky elements
+      contentClone.querySelectorAll('*').forEach((el) => {
+        const htmlEl = el as HTMLElement;
+        const style = getComputedStyle(el);
+        if (style.position === 'fixed' || style.position === 'sticky') {
+          htmlEl.style.position = 'static';
+        }
+        if (style.overflow === 'hidden' || style.overflowY === 'hidden') {
+          htmlEl.style.overflow = 'visible';
+        }
+      });
+
+      // Fix accordion styling
+      contentClone.querySelectorAll('[data-state="open"], [data-state="closed"]').forEach((el) => {
+        const htmlEl = el as HTMLElement;
+        htmlEl.style.transform = 'none';
+        htmlEl.style.transition = 'none';
+        htmlEl.style.animation = 'none';
+        htmlEl.style.position = 'relative';
+        htmlEl.style.height = 'auto';
+        htmlEl.style.opacity = '1';
+        htmlEl.style.visibility = 'visible';
+        htmlEl.style.display = 'block';
+        htmlEl.style.overflow = 'visible';
+      });
+
+      accordionContentSelectors.forEach((selector) => {
+        contentClone.querySelectorAll(selector).forEach((el) => {
+          const htmlEl = el as HTMLElement;
+          htmlEl.style.height = 'auto';
+          htmlEl.style.transform = 'none';
+          htmlEl.style.transition = 'none';
+          htmlEl.style.animation = 'none';
+          htmlEl.style.position = 'relative';
+          htmlEl.style.display = 'block';
+          htmlEl.style.overflow = 'visible';
+        });
+      });
+
+      // Fix accordion root layout
+      contentClone
+        .querySelectorAll('[data-radix-accordion-root], [data-orientation]')
+        .forEach((el) => {
+          const htmlEl = el as HTMLElement;
+          htmlEl.style.display = 'flex';
+          htmlEl.style.flexDirection = 'column';
+          htmlEl.style.gap = '0';
+        });
+
+      contentClone.querySelectorAll('[data-radix-accordion-item]').forEach((el) => {
+        const htmlEl = el as HTMLElement;
+        htmlEl.style.position = 'relative';
+        htmlEl.style.display = 'block';
+        htmlEl.style.height = 'auto';
+      });
+
+      // Remove top margins
+      contentClone.style.marginTop = '0';
+      contentClone.style.paddingTop = '0';
+
+      const firstChild = contentClone.firstElementChild as HTMLElement;
+      if (firstChild) {
+        firstChild.style.marginTop = '0';
+        firstChild.style.paddingTop = '0';
+      }
+      return { contentMatches: matches.length, removed };
+    },
+    config.contentSelector,
+    config.includeImages ? config.removeSelectors : [...config.removeSelectors, ...imageSelectors],
+    config.accordionContentSelectors,
+    colorScheme
+  );
+
+  // Printing the whole page instead would include the site's navigation and chrome
+  if (!result) {
+    throw new PdfExportError(
+      'content-not-found',
+      `No element on the page matches the content selector "${config.contentSelector}"`
+    );
+  }
+
+  // Force reflow
+  await page.evaluate(() => {
+    window.scrollTo(0, 0);
+    document.body.offsetHeight;
+  });
+
+  return result;
+}
@@ -0,0 +1,235 @@
+import type { ReadinessOptions, ReadinessStep } from './types.js';
+import type { RenderPage } from './renderer.js';
+
+type Readiness = Required<ReadinessOptions>;
+
+const pollInterval = 50;
+
+/**
+ * Wait until a freshly loaded page is ready: the page's own `__PDF_READY__` signal,
+ * the configured conditions, web fonts and a quiet DOM
+ */
+export async function waitForPageReady(
+  page: RenderPage,
+  readiness: Readiness,
+  report: ReadinessStep[]
+) {
+  const usesSignal = await page.evaluate(() => '__PDF_READY__' in window);
+  if (usesSignal) {
+    await runStep(report, 'ready-signal', readiness.stepTimeout, (deadline) =>
+      poll(deadline, () =>
+        page.evaluate(
+          async (remaining) => {
+            const signal = (window as { __PDF_READY__?: unknown }).__PDF_READY__;
+            if (!(signal instanceof Promise)) return signal === true;
+            // A promise that never settles must not keep the evaluation running past the step
+            return Promise.race([
+              signal.then(() => true),
+              new Promise<boolean>((resolve) => setTimeout(() => resolve(false), remaining)),
+            ]);
+          },
+          Math.max(deadline - Date.now(), 0)
+        )
+      )
+    );
+  }
+
+  if (readiness.waitForSelector.length > 0) {
+    await runStep(report, 'selectors', readiness.stepTimeout, (deadline) =>
+      poll(deadline, () =>
+        page.evaluate(
+          (selectors) => selectors.every((selector) => document.querySelector(selector)),
+          readiness.waitForSelector
+        )
+      )
+    );
+  }
+
+  if (readiness.waitForFunction.length > 0) {
+    await runStep(report, 'functions', readiness.stepTimeout, (deadline) =>
+      poll(deadline, async () => {
+        for (const expression of readiness.waitForFunction) {
+          // Expressions that throw, e.g. before a library has loaded, count as not yet true
+          const value = await page.evaluate<[], unknown>(expression).catch(() => false);
+          if (!value) return false;
+        }
+        return true;
+      })
+    );
+  }
+
+  if (readiness.fonts) {
+    await runStep(report, 'fonts', readiness.stepTimeout, () =>
+      page.evaluate(async () => {
+        await document.fonts.ready;
+      })
+    );
+  }
+
+  await waitForSettled(page, readiness, report);
+}
+
+/**
+ * Wait until the DOM has not changed for `quietPeriod`, e.g. after expanding sections
+ */
+export async function waitForSettled(
+  page: RenderPage,
+  readiness: Readiness,
+  report: ReadinessStep[]
+) {
+  if (readiness.quietPeriod <= 0) return;
+
+  await runStep(report, 'settled', readiness.stepTimeout, async () => {
+    await exposeSettledCheck(page);
+    return page.evaluate(
+      (quietPeriod, timeout) => (window as SettledWindow).__pdfExportSettled!(quietPeriod, timeout),
+      readiness.quietPeriod,
+      readiness.stepTimeout
+    );
+  });
+}
+
+/**
+ * Page global resolving once the DOM has not changed for `quietPeriod`, or with `true`
+ * when `timeout` passes first
+ */
+export type SettledWindow = Window & {
+  __pdfExportSettled?: (quietPeriod: number, timeout: number) => Promise<boolean>;
+};
+
+/**
+ * Define `window.__pdfExportSettled`, for scripts that wait for the DOM in the middle
+ * of running in the page
+ */
+export async function exposeSettledCheck(page: RenderPage) {
+  await page.evaluate(() => {
+    (window as SettledWindow).__pdfExportSettled ??= (quietPeriod, timeout) =>
+      new Promise<boolean>((resolve) => {
+        const finish = (timedOut: boolean) => {
+          observer.disconnect();
+          clearTimeout(quiet);
+          clearTimeout(limit);
+          resolve(timedOut);
+        };
+        const observer = new MutationObserver(() => {
+          clearTimeout(quiet);
+          quiet = setTimeout(() => finish(false), quietPeriod);
+        });
+        let quiet = setTimeout(() => finish(false), quietPeriod);
+        const limit = setTimeout(() => finish(true), timeout);
+        observer.observe(document, {
+          subtree: true,
+          childList: true,
+          attributes: true,
+          characterData: true,
+        });
+      });
+  });
+}
+
+/**
+ * Wait until every eagerly loaded image has loaded and decoded
+ */
+export async function waitForImages(
+  page: RenderPage,
+  readiness: Readiness,
+  report: ReadinessStep[]
+) {
+  if (!readiness.images) return;
+
+  await runStep(report, 'images', readiness.stepTimeout, () =>
+    page.evaluate(async () => {
+      const images = Array.from(document.images).filter(
+        (image) => image.complete || image.loading !== 'lazy'
+      );
+      await Promise.all(
+        images.map(async (image) => {
+          if (!image.complete) {
+            await new Promise((resolve) => {
+              image.addEventListener('load', resolve, { once: true });
+              image.addEventListener('error', resolve, { once: true });
+            });
+          }
+          await image.decode().catch(() => undefined);
+        })
+      );
+    })
+  );
+}
+
+/**
+ * Wait for fonts, images and two animation frames after the page was rearranged for print
+ */
+export async function waitForLayout(
+  page: RenderPage,
+  readiness: Readiness,
+  report: ReadinessStep[]
+) {
+  await runStep(report, 'layout', readiness.stepTimeout, () =>
+    page.evaluate(
+      async (fonts, images) => {
+        if (fonts) await document.fonts.ready;
+        if (images) {
+          await Promise.all(
+            Array.from(document.images).map((image) => image.decode().catch(() => undefined))
+          );
+        }
+        for (let frame = 0; frame < 2; frame++) {
+          await new Promise((resolve) => requestAnimationFrame(resolve));
+        }
+      },
+      readiness.fonts,
+      readiness.images
+    )
+  );
+}
+
+/**
+ * Names of the steps that ran out of time
+ */
+export function timedOutSteps(report: ReadinessStep[]) {
+  return [...new Set(report.filter((step) => step.timedOut).map((step) => step.step))];
+}
+
+/**
+ * Run a step, giving up after `timeout`. `run` resolves `true` when it ran out of time itself.
+ * A step that rejects, e.g. on a rejected `__PDF_READY__` promise, gives up like a timeout
+ * and records the error instead of failing the export.
+ */
+async function runStep(
+  report: ReadinessStep[],
+  step: ReadinessStep['step'],
+  timeout: number,
+  run: (deadline: number) => Promise<unknown>
+) {
+  const start = Date.now();
+  let error: string | undefined;
+  const work = run(start + timeout).then(
+    (result) => result === true,
+    (reason: unknown) => {
+      error = reason instanceof Error ? reason.message : String(reason);
+      return true;
+    }
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = await Promise.race([
+    work,
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+
+  report.push({ step, durationMs: Date.now() - start, timedOut, ...(error && { error }) });
+}
+
+/**
+ * Check a condition until it holds; resolves `true` if the deadline passes first
+ */
+async function poll(deadline: number, check: () => Promise<boolean>) {
+  while (Date.now() < deadline) {
+    if (await check()) return false;
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+  return true;
+}
@@ -0,0 +1,149 @@
+import type { RenderQueueOptions } from './types.js';
+import { PdfExportError } from './errors.js';
+
+const defaultQueueOptions: Required<RenderQueueOptions> = {
+  maxConcurrent: 4,
+  maxQueueLength: 20,
+  maxPerClient: 2,
+  queueTimeout: 30000,
+  retryAfter: 5,
+};
+
+/**
+ * Why a render was not accepted or not started
+ * - `queue-full`: too many renders waiting
+ * - `client-limit`: this client already has too many renders running or waiting
+ * - `timeout`: the render waited longer than `queueTimeout`
+ */
+export type RenderQueueRejection = 'queue-full' | 'client-limit' | 'timeout';
+
+/**
+ * Thrown when the render queue rejects or times out a request (code `busy`).
+ * The status is 429 when saturated and 503 when the wait timed out.
+ */
+export class RenderQueueError extends PdfExportError {
+  readonly reason: RenderQueueRejection;
+  readonly retryAfter: number;
+
+  constructor(reason: RenderQueueRejection, retryAfter: number) {
+    super(
+      'busy',
+      reason === 'timeout'
+        ? 'Timed out waiting for a free render slot'
+        : reason === 'client-limit'
+          ? 'Too many concurrent exports from this client'
+          : 'Too many exports in progress',
+      { status: reason === 'timeout' ? 503 : 429 }
+    );
+    this.name = 'RenderQueueError';
+    this.reason = reason;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Bounded FIFO queue in front of the rendering pipeline
+ */
+export interface RenderQueue {
+  /**
+   * Run a task once a slot is free
+   * @throws {RenderQueueError} when the queue is saturated or the wait times out
+   */
+  run<T>(clientId: string, task: () => Promise<T>): Promise<T>;
+
+  /**
+   * Current queue usage
+   */
+  stats(): { running: number; queued: number };
+}
+
+interface QueuedTask {
+  start: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Create a render queue limiting global and per-client concurrency
+ */
+export function createRenderQueue(options: RenderQueueOptions = {}): RenderQueue {
+  const config = { ...defaultQueueOptions, ...options };
+  const queue: QueuedTask[] = [];
+  const perClient = new Map<string, number>();
+  let running = 0;
+
+  function track(clientId: string, delta: number) {
+    const count = (perClient.get(clientId) ?? 0) + delta;
+    if (count > 0) perClient.set(clientId, count);
+    else perClient.delete(clientId);
+  }
+
+  function startNext() {
+    while (running < config.maxConcurrent && queue.length > 0) {
+      const next = queue.shift()!;
+      clearTimeout(next.timer);
+      running++;
+      next.start();
+    }
+  }
+
+  return {
+    async run(clientId, task) {
+      if ((perClient.get(clientId) ?? 0) >= config.maxPerClient) {
+        throw new RenderQueueError('client-limit', config.retryAfter);
+      }
+
+      if (running >= config.maxConcurrent) {
+        if (queue.length >= config.maxQueueLength) {
+          throw new RenderQueueError('queue-full', config.retryAfter);
+        }
+
+        track(clientId, 1);
+        try {
+          await new Promise<void>((resolve, reject) => {
+            const entry: QueuedTask = {
+              start: resolve,
+              timer: setTimeout(() => {
+                queue.splice(queue.indexOf(entry), 1);
+                reject(new RenderQueueError('timeout', config.retryAfter));
+              }, config.queueTimeout),
+            };
+            queue.push(entry);
+          });
+        } catch (error) {
+          track(clientId, -1);
+          throw error;
+        }
+      } else {
+        track(clientId, 1);
+        running++;
+      }
+
+      try {
+        return await task();
+      } finally {
+        running--;
+        track(clientId, -1);
+        startNext();
+      }
+    },
+
+    stats() {
+      return { running, queued: queue.length };
+    },
+  };
+}
+
+/**
+ * Default client identity: the platform-provided `request.ip` (Next.js on Vercel),
+ * otherwise the right-most `x-forwarded-for` address, the one appended by the proxy in
+ * front of the app. Earlier entries are sent by the client and can be forged.
+ * Only meaningful behind exactly one trusted proxy; use `identifyClient` otherwise.
+ */
+export function getClientIp(request: Request & { ip?: string }) {
+  return (
+    request.ip ||
+    request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'anonymous'
+  );
+}
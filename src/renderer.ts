@@ -0,0 +1,166 @@
+import type { PaperFormat } from './types.js';
+
+/**
+ * Rendering backend: runs each export in an isolated browser session.
+ * `createBrowserPool()` is the built-in Puppeteer implementation; implement this
+ * interface to render with another engine (e.g. Playwright).
+ */
+export interface Renderer {
+  /**
+   * Run a render in a fresh, isolated context whose cookies and storage are
+   * discarded afterwards
+   */
+  run<T>(task: (context: RenderContext) => Promise<T>): Promise<T>;
+
+  /**
+   * Release all browsers held by the renderer
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Isolated browser session of a single render
+ */
+export interface RenderContext {
+  newPage(): Promise<RenderPage>;
+}
+
+/**
+ * Browser page the export pipeline runs against
+ */
+export interface RenderPage {
+  setCookies(cookies: RenderCookie[]): Promise<void>;
+  setViewport(viewport: { width: number; height: number }): Promise<void>;
+
+  /**
+   * Send extra HTTP headers with every request the page makes
+   */
+  setExtraHeaders(headers: Record<string, string>): Promise<void>;
+
+  /**
+   * Emulate the `prefers-color-scheme` media feature
+   */
+  emulateColorScheme(colorScheme: 'light' | 'dark'): Promise<void>;
+
+  /**
+   * Run a script in every document before the page's own scripts
+   */
+  addInitScript<Args extends unknown[]>(
+    script: (...args: Args) => unknown,
+    ...args: Args
+  ): Promise<void>;
+
+  /**
+   * Decide for every request the page makes whether it may proceed
+   */
+  interceptRequests(handler: (request: RenderRequest) => boolean | Promise<boolean>): Promise<void>;
+
+  /**
+   * Observe every response the page receives, with the address the browser connected to.
+   * Optional; without it private addresses are only checked before requests are sent.
+   */
+  onResponse?(handler: (response: RenderResponse) => void): void;
+
+  /**
+   * Navigate and wait for the `load` event or until the network is idle.
+   * Resolves with the document's HTTP status, or `null` when there was no response.
+   * Rejects with an error named `TimeoutError` when `timeout` elapses.
+   */
+  goto(
+    url: string,
+    options: { timeout: number; waitUntil: 'load' | 'networkidle' }
+  ): Promise<{ status: number } | null>;
+
+  /**
+   * Replace the document with the given HTML and wait for it to load
+   */
+  setContent(html: string): Promise<void>;
+
+  /**
+   * Run a function (serialized, so it cannot close over variables) or a script string in the page
+   */
+  evaluate<Args extends unknown[], Result>(
+    script: string | ((...args: Args) => Result),
+    ...args: Args
+  ): Promise<Awaited<Result>>;
+
+  addStyleTag(css: string): Promise<void>;
+  url(): string;
+  pdf(options: RenderPdfOptions): Promise<Uint8Array>;
+
+  /**
+   * Capture the page as a PNG, the whole scrollable page when `fullPage` is set
+   */
+  screenshot(options: { fullPage: boolean }): Promise<Uint8Array>;
+  close(): Promise<void>;
+}
+
+/**
+ * Cookie forwarded to the rendered site
+ */
+export interface RenderCookie {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path: string;
+  secure: boolean;
+}
+
+/**
+ * Request made by a page while rendering
+ */
+export interface RenderRequest {
+  url: string;
+
+  /**
+   * Whether the request navigates the top-level document
+   */
+  isNavigation: boolean;
+}
+
+/**
+ * Response received by a page while rendering
+ */
+export interface RenderResponse {
+  url: string;
+
+  /**
+   * IP address the response was served from, when it came from the network
+   */
+  remoteAddress?: string;
+}
+
+/**
+ * Options for printing a page to PDF; sizes and margins in pixels
+ */
+export interface RenderPdfOptions {
+  format?: PaperFormat;
+  landscape?: boolean;
+  scale?: number;
+  width?: number;
+  height?: number;
+  margin?: { top?: number; right?: number; bottom?: number; left?: number };
+  printBackground?: boolean;
+  displayHeaderFooter?: boolean;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  preferCSSPageSize?: boolean;
+
+  /**
+   * Emit a structure tree; always set explicitly, as Puppeteer tags PDFs by default
+   */
+  tagged?: boolean;
+}
+
+/**
+ * Check whether a value implements the renderer interface
+ */
+export function isRenderer(value: unknown): value is Renderer {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Renderer).run === 'function' &&
+    typeof (value as Renderer).close === 'function'
+  );
+}
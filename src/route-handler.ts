@@ -1,29 +1,58 @@
-import { NextRequest, NextResponse } from 'next/server';
-import puppeteer from 'puppeteer';
-import type { PdfExportOptions, PresetName } from './types.js';
-import { presets } from './types.js';
-
-const defaultOptions: Required<Omit<PdfExportOptions, 'puppeteerOptions' | 'beforePdfGeneration'>> = {
-  contentSelector: 'article',
-  removeSelectors: ['#nd-sidebar', '#nd-toc', 'nav', '.print-hidden'],
-  expandAccordions: true,
-  accordionTriggerSelectors: [
-    'button[data-state="closed"]',
-    '[data-state="closed"] > button',
-    '[data-state="closed"][role="button"]',
-  ],
-  accordionContentSelectors: [
-    '[data-radix-accordion-content]',
-    '[data-radix-collapsible-content]',
-  ],
-  triggerLazyImages: true,
-  pageWidth: 850,
-  margins: { top: 30, right: 30, bottom: 30, left: 30 },
-  timeout: 30000,
-};
+import type { NextRequest } from 'next/server';
+import type {
+  CachedPdf,
+  ErrorDetails,
+  ExportProgress,
+  PdfExportOptions,
+  PresetName,
+} from './types.js';
+import {
+  parseCookies,
+  preparePage,
+  reportPhase,
+  resolveOptions,
+  type PageSession,
+  type ResolvedPdfExportOptions,
+} from './pipeline.js';
+import { finishPdf, renderOutput, toFilename } from './core.js';
+import { runRequestHook, withRequestOptions } from './hooks.js';
+import { timedOutSteps } from './readiness.js';
+import { checkStructureTree, formatAccessibilityIssues } from './accessibility.js';
+import { resolveWatermark } from './watermark.js';
+import { formatContentTypes, serializePage } from './formats.js';
+import { parseRequestOverrides } from './overrides.js';
+import { resolveMetadata } from './metadata.js';
+import {
+  isBundleRequest,
+  renderBundle,
+  resolveBundleOptions,
+  resolveBundlePages,
+} from './bundle.js';
+import { createBrowserPool, isBrowserPool } from './browser-pool.js';
+import type { RenderContext, RenderPage, Renderer } from './renderer.js';
+import { createRenderQueue, getClientIp, RenderQueueError } from './render-queue.js';
+import {
+  createPdfCache,
+  hashPageContent,
+  isPdfCache,
+  matchesEtag,
+  renderingOptions,
+  toEtag,
+  type PdfCache,
+} from './cache.js';
+import { requestPolicy, resolveOrigin, resolvePageUrl } from './security.js';
+import { PdfExportError, toPdfExportError } from './errors.js';
+import { slugify } from './utils.js';
+import { createDebugReport, finishDebugReport, parseDebugMode, type DebugMode } from './debug.js';
+import {
+  countPdfPages,
+  createMetricsRecorder,
+  serverTiming,
+  type MetricsRecorder,
+} from './metrics.js';
 
 /**
- * Creates a Next.js API route handler for PDF export
+ * Creates a Next.js App Router route handler for PDF export
  *
  * @param options - Configuration options or a preset name
  * @returns Next.js GET route handler
@@ -33,398 +62,500 @@ const defaultOptions: Required<Omit<PdfExportOptions, 'puppeteerOptions' | 'befo
  * import { createPdfExportHandler } from 'fumadocs-pdf-export';
  *
  * // Using default options (Fumadocs)
- * export const GET = createPdfExportHandler();
+ * export const GET = createPdfExportHandler({ baseUrl: 'http://localhost:3000' });
  *
  * // Using a preset
- * export const GET = createPdfExportHandler('docusaurus');
+ * export const GET = createPdfExportHandler({
+ *   preset: 'docusaurus',
+ *   baseUrl: 'http://localhost:3000',
+ * });
  *
  * // Using custom options
  * export const GET = createPdfExportHandler({
+ *   baseUrl: 'http://localhost:3000',
  *   contentSelector: '.my-content',
  *   removeSelectors: ['.sidebar', '.toc'],
  * });
+ *
+ * // Bundle export: /api/export-pdf?prefix=/docs/guides
+ * export const GET = createPdfExportHandler({
+ *   baseUrl: 'http://localhost:3000',
+ *   resolvePages: () => source.getPages().map((page) => ({ path: page.url, title: page.data.title })),
+ * });
  */
 export function createPdfExportHandler(options?: PdfExportOptions | PresetName) {
-  // Resolve preset if string is passed
-  let resolvedOptions: PdfExportOptions;
-  if (typeof options === 'string') {
-    const preset = presets[options];
-    resolvedOptions = {
-      ...preset,
-      removeSelectors: [...preset.removeSelectors],
-      accordionTriggerSelectors: [...preset.accordionTriggerSelectors],
-      accordionContentSelectors: [...preset.accordionContentSelectors],
-    };
-  } else {
-    resolvedOptions = options || {};
-  }
+  const respond = createExportResponder(options);
 
-  const config = {
-    ...defaultOptions,
-    ...resolvedOptions,
-    margins: { ...defaultOptions.margins, ...resolvedOptions.margins },
+  return async function handler(request: NextRequest): Promise<Response> {
+    return respond(request);
   };
+}
 
-  return async function handler(request: NextRequest): Promise<NextResponse> {
-    const searchParams = request.nextUrl.searchParams;
-    const path = searchParams.get('path');
-
-    if (!path) {
-      return NextResponse.json({ error: 'Missing path parameter' }, { status: 400 });
-    }
+/**
+ * Creates a handler for Web-standard `Request`/`Response` runtimes, such as Astro endpoints,
+ * Remix loaders, Hono, Bun and Deno
+ *
+ * @example
+ * // src/pages/api/export-pdf.ts (Astro)
+ * import { createWebPdfExportHandler } from 'fumadocs-pdf-export';
+ *
+ * const handler = createWebPdfExportHandler({
+ *   baseUrl: 'http://localhost:4321',
+ *   contentSelector: 'main',
+ * });
+ * export const GET: APIRoute = ({ request }) => handler(request);
+ */
+export function createWebPdfExportHandler(options?: PdfExportOptions | PresetName) {
+  const respond = createExportResponder(options);
 
-    // Build the page URL from request
-    const protocol = request.nextUrl.protocol.replace(':', '');
-    const host = request.headers.get('host') || 'localhost:3000';
-    const baseUrl = `${protocol}://${host}`;
-    const pageUrl = `${baseUrl}${path}`;
+  return async function handler(request: Request): Promise<Response> {
+    return respond(request);
+  };
+}
 
-    // Get cookies for authenticated pages
+/**
+ * Build the request → response export function shared by the HTTP adapters and export jobs
+ */
+export function createExportResponder(options?: PdfExportOptions | PresetName) {
+  const handlerConfig = resolveOptions(options);
+  const { renderer: customRenderer, browserPool, puppeteerOptions } = handlerConfig;
+
+  // Browsers are launched lazily on the first render and kept warm between requests
+  const renderer: Renderer =
+    customRenderer ??
+    (browserPool && isBrowserPool(browserPool)
+      ? browserPool
+      : createBrowserPool({
+          launchOptions: puppeteerOptions,
+          logger: handlerConfig.logger,
+          ...browserPool,
+        }));
+
+  const queue = handlerConfig.queue === false ? null : createRenderQueue(handlerConfig.queue);
+  const identifyClient = handlerConfig.identifyClient ?? getClientIp;
+
+  const cache: PdfCache | null =
+    handlerConfig.cache === false
+      ? null
+      : handlerConfig.cache && isPdfCache(handlerConfig.cache)
+        ? handlerConfig.cache
+        : createPdfCache(handlerConfig.cache);
+
+  /**
+   * Forward the request's cookies to the rendered origin, restrict browser traffic to it
+   * and resolve the request's watermark
+   */
+  async function createSession(
+    config: ResolvedPdfExportOptions,
+    request: Request,
+    origin: string,
+    metrics: MetricsRecorder,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<PageSession> {
+    const { hostname, protocol } = new URL(origin);
     const cookieHeader = request.headers.get('cookie') || '';
 
-    let browser;
-    try {
-      browser = await puppeteer.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox', '--ignore-certificate-errors'],
-        ...config.puppeteerOptions,
-      });
+    return {
+      request,
+      cookies: cookieHeader
+        ? parseCookies(cookieHeader, hostname, protocol === 'https:', origin)
+        : [],
+      policy: requestPolicy(origin, config),
+      onProgress,
+      colorScheme: config.colorScheme,
+      watermark: await resolveWatermark(config.watermark, request),
+      metrics,
+    };
+  }
 
-      const page = await browser.newPage();
+  /**
+   * Run a render with the renderer, behind the queue when enabled.
+   * The wait for a slot and a browser is timed as the `queued` phase.
+   */
+  function render<T>(
+    clientId: string,
+    metrics: MetricsRecorder,
+    task: (context: RenderContext) => Promise<T>
+  ) {
+    metrics.enter('queued');
+    return queue ? queue.run(clientId, () => renderer.run(task)) : renderer.run(task);
+  }
 
-      // Forward cookies for authentication
-      if (cookieHeader) {
-        const domain = host.split(':')[0];
-        const isSecure = protocol === 'https';
-        const cookies = parseCookies(cookieHeader, domain, isSecure, baseUrl);
-        if (cookies.length > 0) {
-          await page.setCookie(...cookies);
-        }
+  /**
+   * Answer an export request, recording its timings and counters in `metrics`
+   */
+  async function exportResponse(
+    request: Request,
+    metrics: MetricsRecorder,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Response> {
+    const { protocol, searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+    const isBundle = isBundleRequest(searchParams);
+    const ifNoneMatch = request.headers.get('if-none-match');
+
+    try {
+      const clientId = identifyClient(request) || 'anonymous';
+      if (!path && !isBundle) {
+        throw new PdfExportError('invalid-request', 'Missing path parameter');
       }
 
-      await page.setViewport({ width: config.pageWidth, height: 600 });
-      await page.goto(pageUrl, { waitUntil: 'networkidle0', timeout: config.timeout });
+      const section = searchParams.get('section');
+      if (section !== null && (isBundle || !section.trim())) {
+        throw new PdfExportError(
+          'invalid-request',
+          isBundle
+            ? 'The section parameter only applies to single pages'
+            : 'Invalid section parameter'
+        );
+      }
 
-      // Expand accordions if enabled
-      if (config.expandAccordions) {
-        await expandAccordions(page, config.accordionTriggerSelectors);
+      if (searchParams.has('prefix') && !handlerConfig.resolvePages) {
+        throw new PdfExportError(
+          'invalid-request',
+          'The prefix parameter requires the resolvePages option'
+        );
       }
 
-      // Trigger lazy images if enabled
-      if (config.triggerLazyImages) {
-        await triggerLazyImages(page);
+      // Query parameter overrides first, so the onRequest hook has the final say
+      const overrides = {
+        ...parseRequestOverrides(searchParams, handlerConfig.allowRequestOverrides),
+        section: section ?? undefined,
+      };
+      const hooked = await runRequestHook(withRequestOptions(handlerConfig, overrides), request);
+      if (hooked instanceof Response) return hooked;
+      const config = hooked;
+      const { format } = config;
+
+      // Checked after `onRequest`, which may enable debugging for trusted requests
+      const debugParam = searchParams.get('debug');
+      const debugMode = debugParam === null ? null : parseDebugMode(debugParam);
+      if (debugMode && (!config.debug || isBundle)) {
+        throw new PdfExportError(
+          'invalid-request',
+          isBundle
+            ? 'The debug parameter only applies to single pages'
+            : 'The debug parameter requires the debug option'
+        );
       }
 
-      // Clean up page for PDF
-      await cleanupPageForPdf(page, config);
+      // Resolve the rendered origin from `baseUrl`, or the validated Host header
+      const origin = resolveOrigin({ protocol, host: request.headers.get('host') }, config);
+      const session = await createSession(config, request, origin, metrics, onProgress);
+      metrics.set({ format, cache: cache ? 'miss' : 'off' });
 
-      // Run custom transformation if provided
-      if (resolvedOptions.beforePdfGeneration) {
-        await page.evaluate(resolvedOptions.beforePdfGeneration);
-      }
+      if (isBundle) {
+        if (format !== 'pdf') {
+          throw new PdfExportError('invalid-request', 'Bundles can only be exported as PDF');
+        }
+
+        const bundle = resolveBundleOptions(config.bundle, searchParams.get('title'));
+        const pages = await resolveBundlePages(searchParams, config);
 
-      // Calculate content height
-      const contentHeight = await page.evaluate((selector) => {
-        const content = document.querySelector(selector) as HTMLElement | null;
-        if (content) {
-          content.offsetHeight; // Force reflow
-          const rect = content.getBoundingClientRect();
-          return rect.height + 40;
+        if (pages.length === 0) {
+          throw new PdfExportError('page-not-found', 'No pages matched the request');
         }
-        return document.body.scrollHeight;
-      }, config.contentSelector);
-
-      // Generate PDF
-      const pdfBuffer = await page.pdf({
-        width: config.pageWidth,
-        height: contentHeight + 60,
-        printBackground: true,
-        margin: config.margins,
-        preferCSSPageSize: false,
-      });
 
-      await browser.close();
+        if (pages.length > bundle.maxPages) {
+          throw new PdfExportError(
+            'invalid-request',
+            `Bundle exceeds the maximum of ${bundle.maxPages} pages`
+          );
+        }
 
-      const filename = path.replace(/\//g, '-').replace(/^-/, '') || 'document';
+        pages.forEach((page) => resolvePageUrl(page.path, origin, config.allowedPathPrefixes));
+        metrics.set({ paths: pages.map((page) => page.path) });
+
+        // Bundles are only cached when the key does not depend on page content
+        const cacheKey = cache
+          ? await cache.resolveKey({
+              request,
+              paths: pages.map((page) => page.path),
+              options: {
+                config: renderingOptions(config),
+                bundle,
+                colorScheme: session.colorScheme,
+                watermark: session.watermark,
+              },
+            })
+          : null;
+        const bundleKey = cacheKey?.final ? cacheKey.key : null;
+
+        if (cache && bundleKey) {
+          const cached = await respondFromCache(cache, bundleKey, ifNoneMatch);
+          if (cached) {
+            metrics.set({ cache: 'hit' });
+            return cached;
+          }
+        }
 
-      return new NextResponse(Buffer.from(pdfBuffer), {
-        headers: {
+        const result = await render(clientId, metrics, (context) =>
+          renderBundle(context, pages, { origin, session, config, bundle })
+        );
+
+        if (!result.pdf) {
+          const error = new PdfExportError(
+            'render-failed',
+            'Every page of the bundle failed to export'
+          );
+          metrics.fail(error);
+          return errorResponse(error, handlerConfig.errorDetails, { failures: result.failures });
+        }
+
+        const metadata = await resolveMetadata(config.metadata, result.metadata, request);
+        const pdf = await finishPdf(result.pdf, metadata, config, request);
+        metrics.set({ bytes: pdf.byteLength, pageCount: await countPdfPages(pdf) });
+        const filename = slugify(metadata.title ?? result.title) || 'bundle';
+        const headers = {
           'Content-Type': 'application/pdf',
           'Content-Disposition': `attachment; filename="${filename}.pdf"`,
-        },
-      });
-    } catch (error) {
-      console.error('PDF generation error:', error);
-      if (browser) {
-        await browser.close();
+          'X-Pdf-Export-Pages': String(result.rendered),
+          'X-Pdf-Export-Failed': result.failures
+            .map((failure) => encodeURIComponent(failure.path))
+            .join(','),
+          // Merging drops the pages' structure trees
+          ...(config.accessibility && {
+            'X-Pdf-Accessibility': formatAccessibilityIssues(await checkStructureTree(pdf)),
+          }),
+        };
+
+        // Partial bundles are not cached so failed pages are retried next time
+        const cacheable = bundleKey && result.failures.length === 0 ? bundleKey : null;
+        return storeAndRespond(
+          cache,
+          cacheable,
+          pages.map((page) => page.path),
+          pdf,
+          headers
+        );
       }
-      return NextResponse.json(
-        { error: 'Failed to generate PDF', details: String(error) },
-        { status: 500 }
-      );
-    }
-  };
-}
 
-/**
- * Parse cookie header into Puppeteer cookie format
- */
-function parseCookies(
-  cookieHeader: string,
-  domain: string,
-  isSecure: boolean,
-  baseUrl: string
-) {
-  return cookieHeader
-    .split(';')
-    .map((cookie) => {
-      const trimmed = cookie.trim();
-      if (!trimmed || !trimmed.includes('=')) return null;
+      const pageUrl = resolvePageUrl(path!, origin, config.allowedPathPrefixes);
+      metrics.set({ paths: [path!] });
 
-      const [name, ...valueParts] = trimmed.split('=');
-      const cookieName = name?.trim();
-      const cookieValue = valueParts.join('=');
+      // Debugging bypasses the cache and responds with what the pipeline did instead
+      if (debugMode) {
+        return render(clientId, metrics, async (context) =>
+          debugResponse(await context.newPage(), pageUrl, config, session, debugMode)
+        );
+      }
+      const cacheKey = cache
+        ? await cache.resolveKey({
+            request,
+            paths: [path!],
+            options: {
+              config: renderingOptions(config),
+              format,
+              colorScheme: session.colorScheme,
+              watermark: session.watermark,
+            },
+          })
+        : null;
+
+      if (cache && cacheKey?.final) {
+        const cached = await respondFromCache(cache, cacheKey.key, ifNoneMatch);
+        if (cached) {
+          metrics.set({ cache: 'hit' });
+          return cached;
+        }
+      }
 
-      if (!cookieName) return null;
+      const result = await render(clientId, metrics, async (context) => {
+        const page = await context.newPage();
+        const prepared = await preparePage(page, pageUrl, config, session);
 
-      // __Host- cookies: must have secure=true, path=/, NO domain
-      if (cookieName.startsWith('__Host-')) {
-        return {
-          name: cookieName,
-          value: cookieValue || '',
-          url: baseUrl,
-          path: '/',
-          secure: true,
-        };
-      }
+        // Content fingerprint: the page is loaded and cleaned, but rendering is skipped on a hit
+        let key = cacheKey?.key ?? null;
+        if (cache && cacheKey && !cacheKey.final) {
+          key = cache.withContentHash(cacheKey.key, await hashPageContent(page));
+          if (matchesEtag(ifNoneMatch, toEtag(key))) return { key };
+
+          const cached = await cache.get(key);
+          if (cached) return { key, cached };
+        }
 
-      // __Secure- cookies: must have secure=true
-      if (cookieName.startsWith('__Secure-')) {
+        reportPhase(session, 'rendering');
+        const { body, metadata, accessibility } = await renderOutput(
+          page,
+          prepared,
+          config,
+          request,
+          format
+        );
         return {
-          name: cookieName,
-          value: cookieValue || '',
-          url: baseUrl,
-          path: '/',
-          secure: true,
+          key,
+          body,
+          title: metadata.title,
+          timeouts: timedOutSteps(prepared.readiness),
+          accessibility,
         };
+      });
+
+      if (!result.body) {
+        metrics.set({ cache: 'hit' });
+        return result.cached ? cachedResponse(result.cached) : notModifiedResponse(result.key!);
       }
 
-      // Regular cookies
-      return {
-        name: cookieName,
-        value: cookieValue || '',
-        domain,
-        path: '/',
-        secure: isSecure,
-      };
-    })
-    .filter((cookie): cookie is NonNullable<typeof cookie> => cookie !== null);
+      metrics.set({
+        bytes: result.body.byteLength,
+        pageCount: format === 'pdf' ? await countPdfPages(result.body) : undefined,
+      });
+
+      const filename = toFilename(result.title, path!, config.section);
+
+      return storeAndRespond(cache, result.key, [path!], result.body, {
+        'Content-Type': formatContentTypes[format],
+        'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+        // Readiness steps that ran out of time: the export may be missing late content
+        ...(result.timeouts.length > 0 && { 'X-Pdf-Export-Timeouts': result.timeouts.join(',') }),
+        // Accessibility issue counts per rule, e.g. `image-alt=2,heading-order=1`
+        ...(result.accessibility && {
+          'X-Pdf-Accessibility': formatAccessibilityIssues(result.accessibility),
+        }),
+      });
+    } catch (error) {
+      metrics.fail(error);
+      return errorResponse(error, handlerConfig.errorDetails);
+    }
+  }
+
+  // Every response carries the phase timings, cached and failed ones included
+  return async function respond(
+    request: Request,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Response> {
+    const metrics = createMetricsRecorder();
+    const response = await exportResponse(request, metrics, onProgress);
+    const timing = serverTiming(metrics.report(handlerConfig, response.status));
+
+    try {
+      response.headers.set('Server-Timing', timing);
+    } catch {
+      // A response from `onRequest` may have immutable headers
+    }
+    return response;
+  };
 }
 
 /**
- * Expand all accordions on the page
+ * Run the pipeline in debug mode: a JSON report of each step, including the error that stopped
+ * it, or the cleaned-up page as self-contained HTML for previewing
  */
-async function expandAccordions(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P>
-    ? P
-    : never,
-  selectors: string[]
+async function debugResponse(
+  page: RenderPage,
+  pageUrl: string,
+  config: ResolvedPdfExportOptions,
+  session: PageSession,
+  mode: DebugMode
 ) {
-  const selectorString = selectors.join(', ');
-
-  for (let i = 0; i < 5; i++) {
-    const expanded = await page.evaluate((sel) => {
-      const closedButtons = document.querySelectorAll(sel);
-      closedButtons.forEach((btn) => (btn as HTMLElement).click());
-      return closedButtons.length;
-    }, selectorString);
+  const headers = { 'Cache-Control': 'no-store' };
 
-    if (expanded === 0) break;
-    await new Promise((resolve) => setTimeout(resolve, 400));
+  if (mode === 'preview') {
+    await preparePage(page, pageUrl, config, session);
+    return new Response(await serializePage(page), {
+      headers: { ...headers, 'Content-Type': formatContentTypes.html },
+    });
   }
 
-  // Wait for content to render
-  await new Promise((resolve) => setTimeout(resolve, 500));
+  const report = createDebugReport(pageUrl);
+  try {
+    const prepared = await preparePage(page, pageUrl, config, { ...session, debug: report });
+    return Response.json(await finishDebugReport(page, report, { prepared }), { headers });
+  } catch (error) {
+    return Response.json(await finishDebugReport(page, report, { error }), { headers });
+  }
 }
 
 /**
- * Scroll through page to trigger lazy-loaded images
+ * JSON error response: `{ error, code }`, plus `details` as far as `errorDetails` allows.
+ * Logging is left to the caller.
  */
-async function triggerLazyImages(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P>
-    ? P
-    : never
+export function errorResponse(
+  error: unknown,
+  errorDetails: ErrorDetails,
+  body: Record<string, unknown> = {}
 ) {
-  // Scroll through the page
-  await page.evaluate(async () => {
-    await new Promise<void>((resolve) => {
-      let totalHeight = 0;
-      const distance = 200;
-      const timer = setInterval(() => {
-        window.scrollBy(0, distance);
-        totalHeight += distance;
-        if (totalHeight >= document.body.scrollHeight + 500) {
-          clearInterval(timer);
-          window.scrollTo(0, 0);
-          resolve();
-        }
-      }, 50);
-    });
-  });
-
-  // Wait for images to load
-  await page.evaluate(async () => {
-    const images = document.querySelectorAll('img');
-    images.forEach((img) => img.removeAttribute('loading'));
-
-    await Promise.all(
-      Array.from(images).map((img) => {
-        if (img.complete && img.naturalHeight > 0) return Promise.resolve();
-        return new Promise((resolve) => {
-          img.onload = resolve;
-          img.onerror = resolve;
-          const src = img.src;
-          img.src = '';
-          img.src = src;
-        });
-      })
-    );
-  });
+  const exportError = toPdfExportError(error);
+  const { cause } = exportError;
+
+  const details =
+    cause === undefined || errorDetails === 'none'
+      ? undefined
+      : errorDetails === 'stack' && cause instanceof Error
+        ? cause.stack
+        : String(cause);
+
+  if (exportError instanceof RenderQueueError) {
+    body = { ...body, reason: exportError.reason };
+  }
 
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  return Response.json(
+    { error: exportError.message, code: exportError.code, details, ...body },
+    {
+      status: exportError.status,
+      headers:
+        exportError instanceof RenderQueueError
+          ? { 'Retry-After': String(exportError.retryAfter) }
+          : undefined,
+    }
+  );
 }
 
 /**
- * Clean up the page DOM for PDF generation
+ * Answer from the cache: 304 when the client's copy is current, the cached PDF on a hit,
+ * or null on a miss
  */
-async function cleanupPageForPdf(
-  page: Awaited<ReturnType<typeof puppeteer.launch>>['newPage'] extends () => Promise<infer P>
-    ? P
-    : never,
-  config: typeof defaultOptions
-) {
-  await page.evaluate(
-    (contentSelector, removeSelectors, accordionContentSelectors) => {
-      const content = document.querySelector(contentSelector);
-      if (!content) return;
-
-      const contentClone = content.cloneNode(true) as HTMLElement;
-
-      // Clear body and add only content
-      document.body.innerHTML = '';
-      document.body.appendChild(contentClone);
-
-      // Reset styles
-      document.body.style.cssText = `
-        margin: 0;
-        padding: 0;
-        background: white;
-        width: 100%;
-        max-width: 100%;
-      `;
-      document.documentElement.style.cssText = `
-        margin: 0;
-        padding: 0;
-        background: white;
-      `;
-
-      contentClone.style.cssText = `
-        max-width: 100%;
-        width: 100%;
-        margin: 0;
-        padding: 0;
-        background: white;
-      `;
-
-      // Remove navigation elements
-      contentClone.querySelectorAll('[class*="grid-cols-2"]').forEach((el) => el.remove());
-      contentClone.querySelectorAll('[class*="@container"]').forEach((el) => {
-        if (el.querySelector('[class*="grid-cols-2"]') || el.querySelectorAll('a').length === 2) {
-          el.remove();
-        }
-      });
-
-      // Remove specified selectors
-      removeSelectors.forEach((selector) => {
-        contentClone.querySelectorAll(selector).forEach((el) => el.remove());
-      });
-
-      // Fix fixed/sticky elements
-      contentClone.querySelectorAll('*').forEach((el) => {
-        const htmlEl = el as HTMLElement;
-        const style = getComputedStyle(el);
-        if (style.position === 'fixed' || style.position === 'sticky') {
-          htmlEl.style.position = 'static';
-        }
-        if (style.overflow === 'hidden' || style.overflowY === 'hidden') {
-          htmlEl.style.overflow = 'visible';
-        }
-      });
+async function respondFromCache(cache: PdfCache, key: string, ifNoneMatch: string | null) {
+  if (matchesEtag(ifNoneMatch, toEtag(key))) {
+    return notModifiedResponse(key);
+  }
 
-      // Fix accordion styling
-      contentClone.querySelectorAll('[data-state="open"], [data-state="closed"]').forEach((el) => {
-        const htmlEl = el as HTMLElement;
-        htmlEl.style.transform = 'none';
-        htmlEl.style.transition = 'none';
-        htmlEl.style.animation = 'none';
-        htmlEl.style.position = 'relative';
-        htmlEl.style.height = 'auto';
-        htmlEl.style.opacity = '1';
-        htmlEl.style.visibility = 'visible';
-        htmlEl.style.display = 'block';
-        htmlEl.style.overflow = 'visible';
-      });
+  const entry = await cache.get(key);
+  return entry ? cachedResponse(entry) : null;
+}
 
-      accordionContentSelectors.forEach((selector) => {
-        contentClone.querySelectorAll(selector).forEach((el) => {
-          const htmlEl = el as HTMLElement;
-          htmlEl.style.height = 'auto';
-          htmlEl.style.transform = 'none';
-          htmlEl.style.transition = 'none';
-          htmlEl.style.animation = 'none';
-          htmlEl.style.position = 'relative';
-          htmlEl.style.display = 'block';
-          htmlEl.style.overflow = 'visible';
-        });
-      });
+function notModifiedResponse(key: string) {
+  return new Response(null, { status: 304, headers: { ETag: toEtag(key) } });
+}
 
-      // Fix accordion root layout
-      contentClone
-        .querySelectorAll('[data-radix-accordion-root], [data-orientation]')
-        .forEach((el) => {
-          const htmlEl = el as HTMLElement;
-          htmlEl.style.display = 'flex';
-          htmlEl.style.flexDirection = 'column';
-          htmlEl.style.gap = '0';
-        });
-
-      contentClone.querySelectorAll('[data-radix-accordion-item]').forEach((el) => {
-        const htmlEl = el as HTMLElement;
-        htmlEl.style.position = 'relative';
-        htmlEl.style.display = 'block';
-        htmlEl.style.height = 'auto';
-      });
+function cachedResponse(entry: CachedPdf) {
+  return new Response(Buffer.from(entry.body), {
+    headers: { ...entry.headers, ...cacheHeaders(entry), 'X-Pdf-Cache': 'HIT' },
+  });
+}
 
-      // Remove top margins
-      contentClone.style.marginTop = '0';
-      contentClone.style.paddingTop = '0';
+/**
+ * Store a freshly rendered export (when cacheable) and build its response
+ */
+async function storeAndRespond(
+  cache: PdfCache | null,
+  key: string | null,
+  paths: string[],
+  body: Uint8Array,
+  headers: Record<string, string>
+) {
+  if (!cache || !key) {
+    return new Response(Buffer.from(body), { headers });
+  }
 
-      const firstChild = contentClone.firstElementChild as HTMLElement;
-      if (firstChild) {
-        firstChild.style.marginTop = '0';
-        firstChild.style.paddingTop = '0';
-      }
-    },
-    config.contentSelector,
-    config.removeSelectors,
-    config.accordionContentSelectors
-  );
+  const entry: CachedPdf = {
+    paths,
+    body,
+    headers,
+    etag: toEtag(key),
+    lastModified: Date.now(),
+  };
+  await cache.set(key, entry);
 
-  // Force reflow
-  await page.evaluate(() => {
-    window.scrollTo(0, 0);
-    document.body.offsetHeight;
+  return new Response(Buffer.from(body), {
+    headers: { ...headers, ...cacheHeaders(entry), 'X-Pdf-Cache': 'MISS' },
   });
+}
 
-  await new Promise((resolve) => setTimeout(resolve, 100));
+function cacheHeaders(entry: CachedPdf) {
+  return {
+    ETag: entry.etag,
+    'Last-Modified': new Date(entry.lastModified).toUTCString(),
+    'Cache-Control': 'private, no-cache',
+  };
 }
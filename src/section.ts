@@ -0,0 +1,50 @@
+import type { RenderPage } from './renderer.js';
+import { PdfExportError } from './errors.js';
+
+/**
+ * Reduce the cleaned-up content to one section: from the heading with the given id up to
+ * the next heading of the same or a higher level, or up to the next heading of any level
+ * without subsections. Wrappers around the section are kept, so its styles still apply.
+ */
+export async function extractSection(
+  page: RenderPage,
+  section: string,
+  includeSubsections: boolean
+) {
+  const found = await page.evaluate(
+    (section, includeSubsections) => {
+      const container = document.body.firstElementChild;
+      const target = document.getElementById(section);
+      if (!container || !target || !container.contains(target)) return false;
+
+      // The id may sit on the heading, an anchor inside it or a wrapper around it
+      const headingSelector = 'h1, h2, h3, h4, h5, h6';
+      const heading = target.closest(headingSelector) ?? target.querySelector(headingSelector);
+      if (!heading) return false;
+
+      const level = Number(heading.tagName[1]);
+      const headings = Array.from(container.querySelectorAll(headingSelector));
+      const end = headings
+        .slice(headings.indexOf(heading) + 1)
+        .find((next) => !includeSubsections || Number(next.tagName[1]) <= level);
+
+      const range = document.createRange();
+      range.setStartBefore(heading);
+      if (end) range.setEndBefore(end);
+      else range.setEnd(container, container.childNodes.length);
+
+      container.replaceChildren(range.cloneContents());
+      window.scrollTo(0, 0);
+      return true;
+    },
+    section,
+    includeSubsections
+  );
+
+  if (!found) {
+    throw new PdfExportError(
+      'content-not-found',
+      `No heading with the id "${section}" on the page`
+    );
+  }
+}
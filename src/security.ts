@@ -0,0 +1,266 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { RenderPage, RenderRequest } from './renderer.js';
+import { PdfExportError } from './errors.js';
+
+/**
+ * Thrown when a request targets a disallowed origin or path
+ * - 400 (`invalid-request`): the path is malformed
+ * - 403 (`forbidden`): the origin or path is not allowed
+ */
+export class ExportSecurityError extends PdfExportError {
+  declare readonly status: 400 | 403;
+
+  constructor(message: string, status: 400 | 403) {
+    super(status === 403 ? 'forbidden' : 'invalid-request', message, { status });
+    this.name = 'ExportSecurityError';
+  }
+}
+
+/**
+ * Which origins the headless browser may talk to while rendering
+ */
+export interface RequestPolicy {
+  /**
+   * Origins allowed for page navigations (the rendered site itself)
+   */
+  allowedOrigins: string[];
+
+  /**
+   * Block subresource requests to loopback, private and link-local addresses
+   */
+  blockPrivateNetwork: boolean;
+
+  /**
+   * Origins subresources may load from besides `allowedOrigins`. Any public origin when unset.
+   */
+  subresourceOrigins?: string[];
+}
+
+/**
+ * Build the browser request policy for pages rendered from `origin`
+ */
+export function requestPolicy(
+  origin: string,
+  config: { blockPrivateNetwork: boolean; allowedSubresourceOrigins?: string[] }
+): RequestPolicy {
+  return {
+    allowedOrigins: [origin],
+    blockPrivateNetwork: config.blockPrivateNetwork,
+    subresourceOrigins: config.allowedSubresourceOrigins?.map((value) => new URL(value).origin),
+  };
+}
+
+/**
+ * Resolve the origin pages are rendered from.
+ * `baseUrl` wins over the `Host` header; otherwise the header must match `allowedOrigins`.
+ * With neither option set, every request is rejected: the `Host` header is client-controlled.
+ */
+export function resolveOrigin(
+  request: { protocol: string; host: string | null },
+  config: { baseUrl?: string; allowedOrigins?: string[] }
+) {
+  if (config.baseUrl) {
+    return new URL(config.baseUrl).origin;
+  }
+
+  if (!config.allowedOrigins) {
+    throw new ExportSecurityError(
+      'No rendered origin is configured: set baseUrl or allowedOrigins',
+      403
+    );
+  }
+
+  let origin: string;
+  try {
+    const url = new URL(`${request.protocol}//${request.host || 'localhost:3000'}`);
+    if (url.username || url.password || url.pathname !== '/' || url.search || url.hash) {
+      throw new Error('Invalid host');
+    }
+    origin = url.origin;
+  } catch {
+    throw new ExportSecurityError('Invalid Host header', 400);
+  }
+
+  const allowed = config.allowedOrigins.map((value) => new URL(value).origin);
+  if (!allowed.includes(origin)) {
+    throw new ExportSecurityError(`Origin ${origin} is not allowed`, 403);
+  }
+
+  return origin;
+}
+
+/**
+ * Validate a requested page path and resolve it against the origin
+ *
+ * @returns Absolute page URL on the same origin
+ */
+export function resolvePageUrl(path: string, origin: string, allowedPathPrefixes?: string[]) {
+  // Only same-origin absolute paths: no scheme, no protocol-relative `//host`, no `\\`
+  // and no control characters that browsers strip before parsing
+  if (
+    !path.startsWith('/') ||
+    path.startsWith('//') ||
+    path.includes('\\') ||
+    /[\u0000-\u001f\u007f]/.test(path)
+  ) {
+    throw new ExportSecurityError('Path must be an absolute path on this site', 400);
+  }
+
+  const url = new URL(path, origin);
+  if (url.origin !== origin) {
+    throw new ExportSecurityError('Path must be an absolute path on this site', 400);
+  }
+
+  if (allowedPathPrefixes && !matchesPathPrefix(url.pathname, allowedPathPrefixes)) {
+    throw new ExportSecurityError(`Path ${url.pathname} is not allowed`, 403);
+  }
+
+  return url.href;
+}
+
+/**
+ * Segment-aware prefix match: `/docs` matches `/docs` and `/docs/a`, not `/docs-internal`
+ */
+export function matchesPathPrefix(pathname: string, prefixes: string[]) {
+  return prefixes.some((prefix) => {
+    const normalized = prefix.replace(/\/+$/, '');
+    return normalized === '' || pathname === normalized || pathname.startsWith(`${normalized}/`);
+  });
+}
+
+/**
+ * Intercept browser requests: navigations may only go to allowed origins,
+ * and subresources may not reach private network addresses or, when
+ * `subresourceOrigins` is set, origins outside it.
+ *
+ * The browser resolves hostnames itself, so a host that resolves to a public address
+ * here may resolve to a private one for the browser (DNS rebinding). Responses are
+ * therefore checked against the address the browser actually connected to as well.
+ *
+ * @returns Tracker holding the first blocked navigation and the first response served
+ * from a private address, if any
+ */
+export async function guardRequests(page: RenderPage, policy: RequestPolicy) {
+  const tracker = {
+    blockedNavigation: null as string | null,
+    privateResponse: null as string | null,
+  };
+  const privateHosts = new Map<string, Promise<boolean>>();
+
+  await page.interceptRequests(isAllowed);
+  if (policy.blockPrivateNetwork) {
+    page.onResponse?.((response) => {
+      if (!response.remoteAddress || !/^https?:/.test(response.url)) return;
+      if (policy.allowedOrigins.includes(new URL(response.url).origin)) return;
+      if (isPrivateAddress(response.remoteAddress.replace(/^\[|\]$/g, ''))) {
+        tracker.privateResponse ??= response.url;
+      }
+    });
+  }
+
+  async function isAllowed(request: RenderRequest) {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      return false;
+    }
+
+    if (url.protocol === 'data:' || url.protocol === 'blob:') {
+      return true;
+    }
+
+    if (policy.allowedOrigins.includes(url.origin)) {
+      return true;
+    }
+
+    if (request.isNavigation) {
+      tracker.blockedNavigation ??= url.href;
+      return false;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return false;
+    }
+
+    if (policy.subresourceOrigins && !policy.subresourceOrigins.includes(url.origin)) {
+      return false;
+    }
+
+    if (policy.blockPrivateNetwork) {
+      if (!privateHosts.has(url.hostname)) {
+        privateHosts.set(url.hostname, isPrivateHost(url.hostname));
+      }
+      if (await privateHosts.get(url.hostname)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  return tracker;
+}
+
+/**
+ * Check whether a hostname is, or resolves to, a loopback, private or link-local address
+ */
+async function isPrivateHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) {
+    return true;
+  }
+
+  if (isIP(host)) return isPrivateAddress(host);
+
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.some((entry) => isPrivateAddress(entry.address));
+  } catch {
+    // Unresolvable hosts cannot be fetched anyway
+    return true;
+  }
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local, multicast or unspecified
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a = 0, b = 0] = address.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  // IPv4-mapped (`::ffff:127.0.0.1`, `::ffff:7f00:1`) and IPv4-compatible addresses
+  const mapped = normalized.match(
+    /^::(?:ffff:)?(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/
+  );
+  if (mapped) {
+    const [, dotted, high = '0', low = '0'] = mapped;
+    if (dotted) return isPrivateAddress(dotted);
+    const [a, b, c, d] = [high, low].flatMap((hextet) => {
+      const value = parseInt(hextet, 16);
+      return [value >> 8, value & 255];
+    });
+    return isPrivateAddress(`${a}.${b}.${c}.${d}`);
+  }
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    normalized.startsWith('fc') ||
+    normalized.startsWith('fd') ||
+    /^fe[89ab]/.test(normalized)
+  );
+}
@@ -0,0 +1,353 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type {
+  BrowserPoolOptions,
+  StaticExportEntry,
+  StaticExportManifest,
+  StaticExportOptions,
+} from './types.js';
+import {
+  preparePage,
+  resolveOptions,
+  type PageSession,
+  type ResolvedPdfExportOptions,
+} from './pipeline.js';
+import { finishPdf, renderOutput } from './core.js';
+import { runRequestHook } from './hooks.js';
+import { timedOutSteps } from './readiness.js';
+import { PdfExportError, toPdfExportError } from './errors.js';
+import { resolveMetadata } from './metadata.js';
+import { resolveWatermark } from './watermark.js';
+import { renderBundle, resolveBundleOptions } from './bundle.js';
+import { createBrowserPool, isBrowserPool } from './browser-pool.js';
+import type { Renderer } from './renderer.js';
+import { matchesPathPrefix, requestPolicy, resolvePageUrl } from './security.js';
+
+const defaultStaticExportOptions = {
+  outDir: 'pdf-export',
+  concurrency: 2,
+};
+
+/**
+ * Render every page of a running site to PDF files, e.g. as a release step.
+ * Writes one PDF per page (mirroring the URL structure, or one file in the `format` option's
+ * format), an optional `bundle.pdf` and a `manifest.json` with sizes, durations and failures.
+ *
+ * @example
+ * const manifest = await exportStaticPdfs({
+ *   url: 'http://localhost:3000',
+ *   sitemap: '/sitemap.xml',
+ *   options: { layout: 'paginated' },
+ * });
+ * if (manifest.failures.length > 0) process.exit(1);
+ */
+export async function exportStaticPdfs(
+  options: StaticExportOptions
+): Promise<StaticExportManifest> {
+  const baseConfig = resolveOptions(options.options);
+  const outDir = options.outDir ?? defaultStaticExportOptions.outDir;
+  const concurrency = Math.max(1, options.concurrency ?? defaultStaticExportOptions.concurrency);
+
+  const url = options.url ?? baseConfig.baseUrl;
+  if (!url) {
+    throw new Error('Missing url: pass the origin of a running server or set baseUrl');
+  }
+  const origin = new URL(url).origin;
+
+  const paths = await collectPaths(options, origin, baseConfig.allowedPathPrefixes);
+  if (paths.length === 0) {
+    throw new Error('No pages to export: pass paths or a sitemap');
+  }
+
+  // Reuse a custom renderer or shared pool, or run one browser with a slot per parallel render
+  const { browserPool } = baseConfig;
+  const shared =
+    baseConfig.renderer ?? (browserPool && isBrowserPool(browserPool) ? browserPool : null);
+  const renderer: Renderer =
+    shared ??
+    createBrowserPool({
+      size: 1,
+      maxPagesPerBrowser: concurrency,
+      launchOptions: baseConfig.puppeteerOptions,
+      logger: baseConfig.logger,
+      ...(browserPool as BrowserPoolOptions | undefined),
+    });
+
+  const createSession = async (
+    config: ResolvedPdfExportOptions,
+    request: Request
+  ): Promise<PageSession> => ({
+    request,
+    cookies: [],
+    policy: requestPolicy(origin, config),
+    colorScheme: config.colorScheme,
+    watermark: await resolveWatermark(config.watermark, request),
+  });
+
+  const startedAt = new Date();
+  const fileNames = assignFileNames(paths);
+  const pages: StaticExportEntry[] = [];
+  const failures: StaticExportEntry[] = [];
+
+  async function exportPage(path: string) {
+    const start = Date.now();
+    try {
+      const pageUrl = resolvePageUrl(path, origin, baseConfig.allowedPathPrefixes);
+      // Option callbacks and hooks receive a request for the page itself
+      const request = new Request(pageUrl);
+      const hooked = await runRequestHook(baseConfig, request);
+      if (hooked instanceof Response) {
+        throw new PdfExportError('request-rejected', 'Export rejected by onRequest', {
+          status: hooked.status,
+        });
+      }
+      const config = hooked;
+      const session = await createSession(config, request);
+
+      const { body, title, timeouts, accessibility } = await renderer.run(async (context) => {
+        const page = await context.newPage();
+        const prepared = await preparePage(page, pageUrl, config, session);
+        const output = await renderOutput(page, prepared, config, request, config.format);
+        return {
+          body: output.body,
+          title: output.metadata.title,
+          timeouts: timedOutSteps(prepared.readiness),
+          accessibility: output.accessibility,
+        };
+      });
+
+      const file = `${fileNames.get(path)}.${config.format}`;
+      await writeOutput(join(outDir, file), body);
+
+      const entry: StaticExportEntry = {
+        path,
+        file,
+        bytes: body.byteLength,
+        durationMs: Date.now() - start,
+        title,
+        timeouts: timeouts.length > 0 ? timeouts : undefined,
+        accessibility,
+      };
+      pages.push(entry);
+      options.onPage?.(entry);
+    } catch (error) {
+      const entry = { path, durationMs: Date.now() - start, ...describeError(error) };
+      failures.push(entry);
+      options.onPage?.(entry);
+    }
+  }
+
+  /**
+   * Render the pages that exported successfully into `bundle.pdf`
+   */
+  async function exportBundle(): Promise<NonNullable<StaticExportManifest['bundle']>> {
+    const start = Date.now();
+    const bundleOptions = resolveBundleOptions(
+      typeof options.bundle === 'object' ? options.bundle : baseConfig.bundle
+    );
+    const bundlePaths = paths.filter((path) => pages.some((page) => page.path === path));
+
+    try {
+      const request = new Request(origin);
+      const session = await createSession(baseConfig, request);
+      const result = await renderer.run((context) =>
+        renderBundle(
+          context,
+          bundlePaths.map((path) => ({ path })),
+          { origin, session, config: baseConfig, bundle: bundleOptions }
+        )
+      );
+
+      if (!result.pdf) {
+        return {
+          durationMs: Date.now() - start,
+          failures: result.failures,
+          error: 'Every page failed',
+        };
+      }
+
+      const metadata = await resolveMetadata(baseConfig.metadata, result.metadata, request);
+      const pdf = await finishPdf(result.pdf, metadata, baseConfig, request);
+      await writeOutput(join(outDir, 'bundle.pdf'), pdf);
+
+      return {
+        file: 'bundle.pdf',
+        bytes: pdf.byteLength,
+        durationMs: Date.now() - start,
+        failures: result.failures,
+      };
+    } catch (error) {
+      return { durationMs: Date.now() - start, failures: [], ...describeError(error) };
+    }
+  }
+
+  let bundle: StaticExportManifest['bundle'];
+
+  try {
+    // Workers pull paths from a shared queue
+    const remaining = [...paths];
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, paths.length) }, async () => {
+        for (let path = remaining.shift(); path; path = remaining.shift()) {
+          await exportPage(path);
+        }
+      })
+    );
+
+    if (options.bundle) {
+      bundle = await exportBundle();
+    }
+  } finally {
+    if (!shared) await renderer.close();
+  }
+
+  // Workers finish in any order; the manifest lists pages in input order
+  const order = new Map(paths.map((path, index) => [path, index]));
+  const byInputOrder = (a: StaticExportEntry, b: StaticExportEntry) =>
+    order.get(a.path)! - order.get(b.path)!;
+  pages.sort(byInputOrder);
+  failures.sort(byInputOrder);
+
+  const manifest: StaticExportManifest = {
+    origin,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    pages,
+    failures,
+    bundle,
+  };
+  await writeOutput(join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  return manifest;
+}
+
+/**
+ * Error and code of a manifest entry. The manifest is local, so it keeps the underlying error.
+ */
+function describeError(error: unknown) {
+  const { code, message, cause } = toPdfExportError(error);
+  return { error: cause === undefined ? message : `${message}: ${String(cause)}`, code };
+}
+
+/**
+ * Check whether a static export had any failed page or bundle
+ */
+export function hasFailures(manifest: StaticExportManifest) {
+  return (
+    manifest.failures.length > 0 ||
+    Boolean(manifest.bundle?.error) ||
+    (manifest.bundle?.failures.length ?? 0) > 0
+  );
+}
+
+/**
+ * Combine explicit paths and sitemap entries, deduplicated and filtered by allowed prefixes
+ */
+async function collectPaths(
+  options: StaticExportOptions,
+  origin: string,
+  allowedPathPrefixes?: string[]
+) {
+  const paths = [...(options.paths ?? [])];
+  if (options.sitemap) {
+    paths.push(...(await readSitemap(options.sitemap, origin)));
+  }
+
+  const unique = [...new Set(paths.map((path) => path.trim()).filter(Boolean))];
+  return allowedPathPrefixes
+    ? unique.filter((path) => matchesPathPrefix(path, allowedPathPrefixes))
+    : unique;
+}
+
+/**
+ * Read page paths from a sitemap, following sitemap indexes
+ */
+export async function readSitemap(source: string, origin: string, depth = 0): Promise<string[]> {
+  const xml = await readSource(source, origin);
+  const locs = [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g)].map((match) =>
+    decodeXml(match[1]!)
+  );
+
+  // A sitemap index lists further sitemaps instead of pages
+  if (/<sitemapindex[\s>]/.test(xml)) {
+    if (depth > 0) return [];
+    const nested = await Promise.all(locs.map((loc) => readSitemap(loc, origin, depth + 1)));
+    return nested.flat();
+  }
+
+  return locs.map((loc) => new URL(loc, origin).pathname);
+}
+
+/**
+ * Load a sitemap from a URL, a path on the rendered origin or a local file
+ */
+async function readSource(source: string, origin: string) {
+  if (/^https?:\/\//.test(source) || source.startsWith('/')) {
+    const url = /^https?:\/\//.test(source) ? source : new URL(source, origin).href;
+    const response = await fetch(url).catch(() => null);
+    if (response?.ok) return response.text();
+    // `/path/sitemap.xml` may also be an absolute file path
+    if (!source.startsWith('/')) {
+      throw new Error(`Failed to fetch sitemap ${url}: ${response?.status ?? 'network error'}`);
+    }
+  }
+  return readFile(source, 'utf8');
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Output file for a page path, without extension: `/docs/guides/setup` → `docs/guides/setup`,
+ * `/` → `index`
+ */
+export function toFileName(path: string) {
+  const segments = new URL(path, 'http://localhost').pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeSegment(segment).replace(/[^\w.-]+/g, '-'))
+    .filter((segment) => segment !== '.' && segment !== '..');
+  return segments.length > 0 ? segments.join('/') : 'index';
+}
+
+/**
+ * Decode a path segment, keeping it as it is when it holds a malformed escape such as `%zz`
+ */
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Output file of every path. Paths that sanitize to the same name (`/a b` and `/a-b`), also
+ * on case-insensitive file systems, get a numeric suffix in input order: `a-b`, `a-b-2`.
+ * The root `bundle` and `manifest` names are reserved.
+ */
+export function assignFileNames(paths: string[]) {
+  const names = new Map<string, string>();
+  const taken = new Set(['bundle', 'manifest']);
+  for (const path of paths) {
+    const name = toFileName(path);
+    let candidate = name;
+    for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${name}-${suffix}`;
+    }
+    taken.add(candidate.toLowerCase());
+    names.set(path, candidate);
+  }
+  return names;
+}
+
+async function writeOutput(file: string, data: Uint8Array | string) {
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, data);
+}
@@ -0,0 +1,101 @@
+import type { ColorScheme } from './types.js';
+import type { RenderPage } from './renderer.js';
+
+export const colorSchemes: readonly ColorScheme[] = ['light', 'dark', 'auto', 'print'];
+
+/**
+ * Ink-saving palette for `print`: no filled backgrounds on code, callouts and tables,
+ * thin borders instead, and syntax colors from the light theme
+ */
+const printPaletteStyles = `
+html[data-pdf-color-scheme='print'] pre,
+html[data-pdf-color-scheme='print'] pre *,
+html[data-pdf-color-scheme='print'] code,
+html[data-pdf-color-scheme='print'] figure,
+html[data-pdf-color-scheme='print'] [role='alert'],
+html[data-pdf-color-scheme='print'] [role='note'],
+html[data-pdf-color-scheme='print'] [data-callout],
+html[data-pdf-color-scheme='print'] .theme-admonition,
+html[data-pdf-color-scheme='print'] .nextra-callout,
+html[data-pdf-color-scheme='print'] table,
+html[data-pdf-color-scheme='print'] th,
+html[data-pdf-color-scheme='print'] td,
+html[data-pdf-color-scheme='print'] tr {
+  background: transparent !important;
+  box-shadow: none !important;
+}
+
+html[data-pdf-color-scheme='print'] pre,
+html[data-pdf-color-scheme='print'] [role='alert'],
+html[data-pdf-color-scheme='print'] [role='note'],
+html[data-pdf-color-scheme='print'] [data-callout],
+html[data-pdf-color-scheme='print'] .theme-admonition,
+html[data-pdf-color-scheme='print'] .nextra-callout {
+  border: 1px solid #d0d0d0 !important;
+}
+
+html[data-pdf-color-scheme='print'] th,
+html[data-pdf-color-scheme='print'] td {
+  border-color: #d0d0d0 !important;
+}
+
+html[data-pdf-color-scheme='print'] body {
+  color: #000 !important;
+}
+`;
+
+/**
+ * Emulate `prefers-color-scheme` and preselect the site's theme before navigation.
+ * The theme is stored where next-themes and Docusaurus read it, and set on `<html>`
+ * for sites that render it on the server.
+ */
+export async function applyColorScheme(
+  page: RenderPage,
+  colorScheme: ColorScheme,
+  theme: { themeAttribute: string; themeStorageKey: string }
+) {
+  if (colorScheme === 'auto') return;
+
+  const value = colorScheme === 'dark' ? 'dark' : 'light';
+  await page.emulateColorScheme(value);
+
+  await page.addInitScript(
+    (value: string, attribute: string, storageKey: string) => {
+      try {
+        localStorage.setItem(storageKey, value);
+      } catch {
+        // Storage can be unavailable, e.g. on opaque origins
+      }
+
+      const apply = () => {
+        const root = document.documentElement;
+        if (attribute === 'class') {
+          root.classList.remove('light', 'dark');
+          root.classList.add(value);
+        } else {
+          root.setAttribute(attribute, value);
+        }
+        root.style.colorScheme = value;
+      };
+
+      if (document.documentElement) apply();
+      document.addEventListener('DOMContentLoaded', apply);
+    },
+    value,
+    theme.themeAttribute,
+    theme.themeStorageKey
+  );
+}
+
+/**
+ * Mark the document with the color scheme and apply the print palette when selected
+ */
+export async function applyPrintPalette(page: RenderPage, colorScheme: ColorScheme) {
+  await page.evaluate((value) => {
+    document.documentElement.dataset.pdfColorScheme = value;
+  }, colorScheme);
+
+  if (colorScheme === 'print') {
+    await page.addStyleTag(printPaletteStyles);
+  }
+}
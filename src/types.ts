@@ -1,9 +1,387 @@
-import type { LaunchOptions } from 'puppeteer';
+import type { Browser, ConnectOptions, LaunchOptions } from 'puppeteer';
+import type { BrowserPool } from './browser-pool.js';
+import type { PdfCache } from './cache.js';
+import type { Renderer, RenderPage } from './renderer.js';
+import type { PdfExportError, PdfExportErrorCode } from './errors.js';
+
+/**
+ * How the exported content is laid out across PDF pages
+ */
+export type PdfLayout = 'continuous' | 'paginated';
+
+/**
+ * File format an export produces
+ * - `pdf`: the PDF document
+ * - `png`: a full-page screenshot of the cleaned page
+ * - `html`: a single self-contained HTML file with inlined CSS and images
+ * - `epub`: an EPUB 3 book for e-readers
+ */
+export type OutputFormat = 'pdf' | 'png' | 'html' | 'epub';
+
+/**
+ * Paper sizes supported in paginated layout
+ */
+export type PaperFormat = 'A4' | 'Letter' | 'Legal';
+
+/**
+ * Page orientation in paginated layout
+ */
+export type PageOrientation = 'portrait' | 'landscape';
+
+/**
+ * Color scheme the page is rendered in
+ * - `light` / `dark`: force the site's light or dark theme
+ * - `auto`: keep whatever the request's cookies and browser defaults produce
+ * - `print`: light theme with an ink-saving palette for code, callouts and tables
+ */
+export type ColorScheme = 'light' | 'dark' | 'auto' | 'print';
+
+/**
+ * Which tab panels end up in the PDF
+ * - `all`: every panel, one after another, each labelled with its tab title
+ * - `selected`: only the panel selected when the page loads
+ * - `first`: only the first panel
+ */
+export type TabsMode = 'all' | 'selected' | 'first';
+
+/**
+ * Margins a request can pick with `?margins=`
+ * - `none`: no margins
+ * - `narrow` / `normal` / `wide`: 15, 30 or 60 pixels on every side
+ */
+export type MarginPreset = 'none' | 'narrow' | 'normal' | 'wide';
+
+/**
+ * Options a request can set in its query string, e.g. `?paperFormat=Letter&orientation=landscape`.
+ * Only the names listed in `allowRequestOverrides` are accepted.
+ */
+export interface RequestOverrides {
+  layout?: PdfLayout;
+  paperFormat?: PaperFormat;
+  orientation?: PageOrientation;
+  margins?: MarginPreset;
+  colorScheme?: ColorScheme;
+  includeImages?: boolean;
+  includeSubsections?: boolean;
+  expandAccordions?: boolean;
+
+  /**
+   * From 0.1 to 2
+   */
+  scale?: number;
+  format?: OutputFormat;
+}
+
+/**
+ * Name of a query parameter that overrides an option, see `allowRequestOverrides`
+ */
+export type RequestOverride = keyof RequestOverrides;
+
+/**
+ * How much of an unexpected error reaches the client, see `errorDetails`
+ */
+export type ErrorDetails = 'none' | 'message' | 'stack';
+
+/**
+ * Heading level, e.g. `2` for `<h2>`
+ */
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Options for the PDF outline (bookmarks)
+ */
+export interface OutlineOptions {
+  /**
+   * Heading levels included in the outline
+   * @default [1, 2, 3, 4]
+   */
+  levels?: HeadingLevel[];
+}
+
+/**
+ * Conditions the pipeline waits for before it moves on.
+ * Pages can also hold the export with `window.__PDF_READY__`: set it to `false`
+ * (or a promise) in an inline script, and to `true` once rendering is done.
+ */
+export interface ReadinessOptions {
+  /**
+   * Wait for the network to be idle after navigation; otherwise only for the `load` event
+   * @default true
+   */
+  networkIdle?: boolean;
+
+  /**
+   * Wait for web fonts to load
+   * @default true
+   */
+  fonts?: boolean;
+
+  /**
+   * Wait for images to load and decode
+   * @default true
+   */
+  images?: boolean;
+
+  /**
+   * Milliseconds without DOM changes after which the page counts as settled, e.g. once
+   * diagrams and syntax highlighting have rendered. Set to `0` to skip.
+   * @default 200
+   */
+  quietPeriod?: number;
+
+  /**
+   * Selectors that must match an element before the export continues
+   * @example ['.mermaid svg']
+   */
+  waitForSelector?: string[];
+
+  /**
+   * JavaScript expressions, evaluated in the page, that must become truthy
+   * @example ['window.katex !== undefined']
+   */
+  waitForFunction?: string[];
+
+  /**
+   * Maximum milliseconds for each step; a step that runs out is reported and the export continues
+   * @default 5000
+   */
+  stepTimeout?: number;
+}
+
+/**
+ * How content that does not fit the page width is adapted for print
+ */
+export interface ContentFittingOptions {
+  /**
+   * Code blocks with lines longer than the page
+   * - `wrap`: wrap long lines, starting each continuation with `continuationMarker`
+   * - `shrink`: scale the font down until the longest line fits
+   * - `none`: leave code blocks as they are
+   * @default 'wrap'
+   */
+  code?: 'wrap' | 'shrink' | 'none';
+
+  /**
+   * Marker in front of a wrapped code line's continuation
+   * @default '↪'
+   */
+  continuationMarker?: string;
+
+  /**
+   * Number the lines of code blocks
+   * @default false
+   */
+  lineNumbers?: boolean;
+
+  /**
+   * Tables wider than the page
+   * - `shrink`: scale the table down to the page width
+   * - `rotate`: turn the table sideways, scaled down if it is still too wide
+   * - `wrap`: fix the table to the page width and break long cell contents
+   * - `none`: leave tables as they are
+   * @default 'shrink'
+   */
+  tables?: 'shrink' | 'rotate' | 'wrap' | 'none';
+
+  /**
+   * Expand scroll containers and areas limited by `max-height`, such as collapsed
+   * "show more" code blocks, to their full content
+   * @default true
+   */
+  expandScrollAreas?: boolean;
+
+  /**
+   * Interactive chrome removed from code blocks, such as copy buttons and toolbars
+   * @default ['pre button', 'figure:has(pre) button', '.theme-code-block [class*="buttonGroup"]', '.nextra-code button', 'button[aria-label*="copy" i]', '.copy-button']
+   */
+  codeChromeSelectors?: string[];
+}
+
+/**
+ * A readiness step of an export and whether it ran out of time
+ */
+export interface ReadinessStep {
+  step: 'ready-signal' | 'selectors' | 'functions' | 'fonts' | 'images' | 'settled' | 'layout';
+  durationMs: number;
+
+  /**
+   * Whether the step gave up: it ran out of time, or failed (see `error`)
+   */
+  timedOut: boolean;
+
+  /**
+   * Why the step failed, e.g. a rejected `__PDF_READY__` promise
+   */
+  error?: string;
+}
+
+/**
+ * Accessibility problem found on an exported page
+ */
+export interface AccessibilityIssue {
+  /**
+   * - `document-language`: the page declares no language
+   * - `image-alt`: an image has no alt text
+   * - `heading-order`: a heading skips a level, e.g. an h4 after an h2
+   * - `link-name`: a link has no text or label
+   * - `table-headers`: a data table has no header cells
+   * - `untagged`: the PDF has no structure tree
+   */
+  rule:
+    | 'document-language'
+    | 'image-alt'
+    | 'heading-order'
+    | 'link-name'
+    | 'table-headers'
+    | 'untagged';
+  message: string;
+}
+
+/**
+ * Stage of the pipeline captured in a debug report
+ */
+export type DebugStage = 'loaded' | 'expanded' | 'cleaned' | 'final';
+
+/**
+ * What the cleanup pipeline did to a page, returned by `?debug=report`
+ */
+export interface DebugReport {
+  url: string;
+
+  /**
+   * Error that stopped the pipeline; the report covers the steps before it
+   */
+  error?: { code: PdfExportErrorCode; message: string };
+
+  /**
+   * Elements matching `contentSelector`; only the first one is exported
+   */
+  contentMatches?: number;
+
+  /**
+   * Elements each of `removeSelectors` removed from the content
+   */
+  removed?: { selector: string; count: number }[];
+
+  /**
+   * Accordion expansion passes and triggers clicked across them
+   */
+  accordions?: { passes: number; clicked: number };
+
+  /**
+   * Images that loaded, and the URLs of those that failed
+   */
+  images?: { loaded: number; failed: string[] };
+
+  /**
+   * Height in pixels of the cleaned-up content
+   */
+  contentHeight?: number;
+  readiness: ReadinessStep[];
+  headings?: { id: string; level: number; title: string }[];
+  metadata?: PdfMetadata;
+  accessibility?: AccessibilityIssue[];
+
+  /**
+   * The cleaned-up page as it is printed
+   */
+  html?: string;
+
+  /**
+   * Full-page screenshots as PNG data URIs: after loading, after expanding accordions,
+   * tabs and images, after cleanup, and as printed
+   */
+  stages: { stage: DebugStage; screenshot: string }[];
+}
+
+/**
+ * Phase of an export, reported while it runs
+ */
+export type ExportPhase =
+  | 'queued'
+  | 'navigating'
+  | 'expanding-accordions'
+  | 'expanding-tabs'
+  | 'loading-images'
+  | 'cleaning'
+  | 'rendering'
+  | 'done'
+  | 'failed';
+
+/**
+ * Progress update of a running export
+ */
+export interface ExportProgress {
+  phase: ExportPhase;
+
+  /**
+   * Completion estimate from 0 to 100
+   */
+  progress: number;
+}
+
+/**
+ * Timings and counters of one export, passed to `onMetrics`
+ */
+export interface ExportMetrics {
+  /**
+   * Paths of the exported pages; a single one unless the export is a bundle
+   */
+  paths: string[];
+  format: OutputFormat;
+
+  /**
+   * HTTP status of the response, or of the error for a failed `exportPdf()`
+   */
+  status: number;
+  error?: PdfExportErrorCode;
+
+  /**
+   * Whether the export was served from the cache; `304 Not Modified` responses count as hits
+   */
+  cache: 'hit' | 'miss' | 'off';
+  durationMs: number;
+
+  /**
+   * Milliseconds spent in each phase the export went through, summed over the pages of a bundle.
+   * `queued` covers waiting for a render slot and a browser.
+   */
+  phases: Partial<Record<ExportPhase, number>>;
+
+  /**
+   * Size of the exported file
+   */
+  bytes?: number;
+
+  /**
+   * Pages of an exported PDF
+   */
+  pageCount?: number;
+  accordionsExpanded?: number;
+  imagesLoaded?: number;
+  imagesFailed?: number;
+}
+
+/**
+ * Structured event passed to the `logger` option
+ */
+export type ExportLogEvent =
+  | { level: 'info'; event: 'export-completed'; metrics: ExportMetrics }
+  | { level: 'error'; event: 'export-failed'; error: unknown; metrics: ExportMetrics }
+  | { level: 'error'; event: 'bundle-page-failed'; path: string; error: unknown }
+  | { level: 'error'; event: 'job-failed'; id: string; error: unknown }
+  | { level: 'error'; event: 'browser-disconnected' };
 
 /**
  * Configuration options for the PDF export handler
  */
 export interface PdfExportOptions {
+  /**
+   * Preset whose selectors are used as defaults; options set here override them
+   * @example { preset: 'docusaurus', baseUrl: 'http://localhost:3000' }
+   */
+  preset?: PresetName;
+
   /**
    * CSS selector for the main content container
    * @default 'article'
@@ -34,6 +412,30 @@ export interface PdfExportOptions {
    */
   accordionContentSelectors?: string[];
 
+  /**
+   * Which tab and code-group panels to render
+   * @default 'all'
+   */
+  expandTabs?: TabsMode;
+
+  /**
+   * CSS selectors for tab containers (one per tab group)
+   * @default ['div:has(> [role="tablist"])']
+   */
+  tabContainerSelectors?: string[];
+
+  /**
+   * CSS selectors for tab triggers inside a container
+   * @default ['[role="tab"]']
+   */
+  tabTriggerSelectors?: string[];
+
+  /**
+   * CSS selectors for tab panels inside a container
+   * @default ['[role="tabpanel"]']
+   */
+  tabPanelSelectors?: string[];
+
   /**
    * Whether to scroll through the page to trigger lazy-loaded images
    * @default true
@@ -41,7 +443,80 @@ export interface PdfExportOptions {
   triggerLazyImages?: boolean;
 
   /**
-   * PDF page width in pixels
+   * Whether images are exported; `false` removes them for a smaller file
+   * @default true
+   */
+  includeImages?: boolean;
+
+  /**
+   * Export only the section under the heading with this id, up to the next heading of the
+   * same or a higher level. Usually chosen per request with `?section=`.
+   */
+  section?: string;
+
+  /**
+   * Whether a `section` export includes its subsections; `false` stops at the next heading
+   * @default true
+   */
+  includeSubsections?: boolean;
+
+  /**
+   * When the page counts as ready at each step of the pipeline
+   */
+  readiness?: ReadinessOptions;
+
+  /**
+   * How code blocks, wide tables and scroll containers are fitted to the page
+   */
+  fitting?: ContentFittingOptions;
+
+  /**
+   * Color scheme to render in, overridable per request with `?colorScheme=`
+   * @default 'light'
+   */
+  colorScheme?: ColorScheme;
+
+  /**
+   * How the site marks its theme on `<html>`: `'class'` toggles the `light`/`dark` class,
+   * any other value is used as an attribute name (e.g. `'data-theme'`)
+   * @default 'class'
+   */
+  themeAttribute?: string;
+
+  /**
+   * localStorage key the site's theme switcher reads the theme from
+   * @default 'theme'
+   */
+  themeStorageKey?: string;
+
+  /**
+   * Output layout
+   * - `continuous`: a single tall page sized to the content
+   * - `paginated`: real paper-sized pages with smart page breaks
+   * @default 'continuous'
+   */
+  layout?: PdfLayout;
+
+  /**
+   * Output format, overridable per request with `?format=`. Bundles are always PDF.
+   * @default 'pdf'
+   */
+  format?: OutputFormat;
+
+  /**
+   * Paper size used in paginated layout
+   * @default 'A4'
+   */
+  paperFormat?: PaperFormat;
+
+  /**
+   * Page orientation used in paginated layout
+   * @default 'portrait'
+   */
+  orientation?: PageOrientation;
+
+  /**
+   * PDF page width in pixels (continuous layout only)
    * @default 850
    */
   pageWidth?: number;
@@ -58,67 +533,986 @@ export interface PdfExportOptions {
   };
 
   /**
-   * Timeout for page navigation in milliseconds
-   * @default 30000
+   * Scale of the rendered page in the PDF, from 0.1 to 2
+   * @default 1
    */
-  timeout?: number;
+  scale?: number;
 
   /**
-   * Additional Puppeteer launch options
+   * Emit a tagged PDF for assistive technology: image alt text and the document language
+   * are filled in where the page provides them, the reading order follows the DOM inside
+   * `contentSelector`, and problems are reported. Bundles are merged without their tags.
+   * @default false
    */
-  puppeteerOptions?: LaunchOptions;
+  accessibility?: boolean;
 
   /**
-   * Custom function to transform the page before PDF generation
-   * Runs in the browser context after default transformations
+   * Emit PDF/A-2b compatible files for archival: an embedded sRGB output intent,
+   * a document ID and PDF/A identification in the XMP metadata
+   * @default false
    */
-  beforePdfGeneration?: string;
-}
+  pdfA?: boolean;
 
-/**
- * Props for the ExportButton component
- */
-export interface ExportButtonProps {
   /**
-   * API endpoint path for PDF generation
-   * @default '/api/export-pdf'
+   * Header template repeated at the top of every page.
+   * Placeholders: `{{title}}`, `{{url}}`, `{{date}}`, `{{version}}`, `{{pageNumber}}`, `{{totalPages}}`
+   * @example '<span style="margin-left: auto">{{title}}</span>'
    */
-  apiPath?: string;
+  headerTemplate?: string;
 
   /**
-   * Additional CSS class names
+   * Footer template repeated at the bottom of every page, with the same placeholders as `headerTemplate`
+   * @example '<span>{{url}}</span> <span>Page {{pageNumber}} of {{totalPages}}</span>'
    */
-  className?: string;
+  footerTemplate?: string;
 
   /**
-   * Custom content to render inside the button
+   * Space in pixels reserved for the header and footer, added to the top and bottom margins
+   * @default 36
    */
-  children?: React.ReactNode;
+  headerFooterHeight?: number;
 
   /**
-   * Button title/tooltip
-   * @default 'Export as PDF'
+   * Documentation version substituted for `{{version}}` in header and footer templates
    */
-  title?: string;
+  docVersion?: string;
 
   /**
-   * Callback fired when export starts
+   * Diagonal watermark drawn over every page, or a function deriving it from the request
+   * (e.g. the exporting user's email). Return `undefined` for no watermark.
    */
-  onExportStart?: () => void;
+  watermark?:
+    | WatermarkOptions
+    | ((request: Request) => WatermarkOptions | undefined | Promise<WatermarkOptions | undefined>);
 
   /**
-   * Callback fired when export completes successfully
+   * Document metadata written to the PDF info dictionary and XMP.
+   * An object adds or overrides fields extracted from the page; a function receives
+   * the extracted metadata and the request and returns the final metadata.
    */
-  onExportSuccess?: () => void;
+  metadata?:
+    | PdfMetadata
+    | ((extracted: PdfMetadata, request: Request) => PdfMetadata | Promise<PdfMetadata>);
+
+  /**
+   * PDF outline (bookmarks) built from headings inside `contentSelector`
+   * Set to `false` to disable
+   * @default { levels: [1, 2, 3, 4] }
+   */
+  outline?: false | OutlineOptions;
+
+  /**
+   * Whether in-page `#anchor` links jump within the PDF instead of to the live site
+   * @default true
+   */
+  internalLinks?: boolean;
+
+  /**
+   * Origin the pages are rendered from, e.g. `https://docs.example.com` or an internal
+   * `http://localhost:3000`. When set, the request's `Host` header is ignored.
+   * One of `baseUrl` or `allowedOrigins` is required, so presets are combined with it through
+   * the `preset` option.
+   */
+  baseUrl?: string;
+
+  /**
+   * Origins accepted from the request's `Host` header when `baseUrl` is not set.
+   * Requests from other origins are rejected with 403.
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Path prefixes that may be exported, e.g. `['/docs']`. Other paths are rejected with 403.
+   */
+  allowedPathPrefixes?: string[];
+
+  /**
+   * Block browser requests to loopback, private and link-local addresses,
+   * except to the rendered site itself
+   * @default true
+   */
+  blockPrivateNetwork?: boolean;
+
+  /**
+   * Origins the browser may load subresources (images, scripts, fonts) from besides the
+   * rendered site, e.g. `['https://cdn.example.com']`. Requests to other origins are blocked.
+   * When unset, subresources may load from any public origin.
+   */
+  allowedSubresourceOrigins?: string[];
+
+  /**
+   * Query parameters a request may use to override options, e.g. `?paperFormat=Letter`.
+   * Parameters not listed, and invalid values, are rejected with a 400 response.
+   * @default ['colorScheme', 'format']
+   */
+  allowRequestOverrides?: RequestOverride[];
+
+  /**
+   * Timeout for page navigation in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * What error responses reveal besides the error `code` and its user-facing message
+   * - `none`: nothing more
+   * - `message`: the underlying error message as `details`
+   * - `stack`: the underlying error's stack trace as `details`
+   * @default 'none' when `NODE_ENV` is `production`, otherwise 'message'
+   */
+  errorDetails?: ErrorDetails;
+
+  /**
+   * Additional Puppeteer launch options
+   */
+  puppeteerOptions?: LaunchOptions;
+
+  /**
+   * Browser pool used for rendering. Pass a pool created with `createBrowserPool()`
+   * to share browsers across handlers, or options for a pool owned by this handler.
+   * @default { size: 2, maxPagesPerBrowser: 4, maxRendersPerBrowser: 100, idleTimeout: 60000 }
+   */
+  browserPool?: BrowserPool | BrowserPoolOptions;
+
+  /**
+   * Custom rendering backend, e.g. Playwright. Takes precedence over `browserPool`.
+   */
+  renderer?: Renderer;
+
+  /**
+   * Queue limiting how many renders run at once. Saturated requests get
+   * `429` with `Retry-After`, requests that wait too long get `503`.
+   * Set to `false` to disable
+   * @default { maxConcurrent: 4, maxQueueLength: 20, maxPerClient: 2, queueTimeout: 30000, retryAfter: 5 }
+   */
+  queue?: false | RenderQueueOptions;
+
+  /**
+   * Cache for rendered PDFs. Pass a cache created with `createPdfCache()` to share it
+   * and invalidate it after a deploy, or options for a cache owned by this handler.
+   * Set to `false` to disable
+   * @default In-memory LRU keyed by the Next.js build ID
+   */
+  cache?: false | PdfCache | PdfCacheOptions;
+
+  /**
+   * Options for asynchronous export jobs (`createPdfExportJobHandler`)
+   */
+  jobs?: ExportJobOptions;
+
+  /**
+   * Derive the client identity used for per-client queue limits.
+   * The default trusts the proxy in front of the app: set this when there is no proxy
+   * (clients can then send any `x-forwarded-for`) or more than one.
+   * @default `request.ip`, then the last `x-forwarded-for` address, then `x-real-ip`
+   */
+  identifyClient?: (request: Request) => string | undefined;
+
+  /**
+   * Node adapters only (`createNodePdfExportHandler`, `createPagesPdfExportHandler`,
+   * `createPdfExportMiddleware`): identify clients by the `x-forwarded-for` address a proxy
+   * in front of the server appends. When false, the socket address is used and client-sent
+   * `x-forwarded-for` headers are ignored.
+   * @default false
+   */
+  trustProxy?: boolean;
+
+  /**
+   * Script run in the browser after cleanup, before `hooks.transforms`.
+   * Shorthand for a transform without arguments.
+   */
+  beforePdfGeneration?: string;
+
+  /**
+   * Functions called at each step of an export
+   */
+  hooks?: ExportHooks;
+
+  /**
+   * Allow `?debug=report`, which responds with a JSON `DebugReport` instead of the export, and
+   * `?debug=preview`, which responds with the cleaned-up page as HTML. Reports expose the page
+   * content and screenshots: keep this off in production, or enable it per request in `onRequest`.
+   * @default false
+   */
+  debug?: boolean;
+
+  /**
+   * Called with the timings and counters of every export, including failed and cached ones.
+   * Pass `record` of a registry created with `createPdfMetrics()` to expose them to Prometheus.
+   */
+  onMetrics?: (metrics: ExportMetrics) => void;
+
+  /**
+   * Receives structured log events, e.g. to forward them to pino or a log drain
+   * @default Writes errors with `console.error` and ignores info events
+   */
+  logger?: (event: ExportLogEvent) => void;
+
+  /**
+   * List of exportable pages, used to resolve `?prefix=` bundle requests
+   * and to look up page titles for the table of contents
+   */
+  resolvePages?: () => BundlePage[] | Promise<BundlePage[]>;
+
+  /**
+   * Options for multi-page bundle exports (`?paths=` or `?prefix=`)
+   */
+  bundle?: BundleOptions;
+}
+
+/**
+ * PDF document metadata
+ */
+export interface PdfMetadata {
+  /**
+   * Document title, also used for the download filename
+   */
+  title?: string;
+  author?: string;
+
+  /**
+   * Document description
+   */
+  subject?: string;
+  keywords?: string[];
+
+  /**
+   * Language tag, e.g. `en-US`
+   */
+  language?: string;
+
+  /**
+   * Documentation version
+   */
+  version?: string;
+
+  /**
+   * Application that created the original content
+   * @default 'fumadocs-pdf-export'
+   */
+  creator?: string;
+
+  /**
+   * @default 'fumadocs-pdf-export'
+   */
+  producer?: string;
+
+  /**
+   * Export timestamp
+   * @default new Date()
+   */
+  creationDate?: Date;
+}
+
+/**
+ * Watermark drawn diagonally across the page
+ */
+export interface WatermarkOptions {
+  /**
+   * Watermark text, e.g. `'DRAFT'` or the exporting user's email
+   */
+  text?: string;
+
+  /**
+   * Image URL (or data URL) used instead of text
+   */
+  image?: string;
+
+  /**
+   * Watermark opacity between 0 and 1
+   * @default 0.12
+   */
+  opacity?: number;
+
+  /**
+   * Text color
+   * @default '#000000'
+   */
+  color?: string;
+
+  /**
+   * Text size in pixels
+   * @default 72
+   */
+  fontSize?: number;
+
+  /**
+   * Rotation in degrees
+   * @default -45
+   */
+  angle?: number;
+}
+
+/**
+ * Options for a managed browser pool
+ */
+export interface BrowserPoolOptions {
+  /**
+   * Maximum number of browsers running at once
+   * @default 2
+   */
+  size?: number;
+
+  /**
+   * Maximum number of concurrent renders per browser
+   * @default 4
+   */
+  maxPagesPerBrowser?: number;
+
+  /**
+   * Restart a browser after this many renders to keep memory in check
+   * @default 100
+   */
+  maxRendersPerBrowser?: number;
+
+  /**
+   * Close a browser after it has been idle for this many milliseconds (0 keeps it open)
+   * @default 60000
+   */
+  idleTimeout?: number;
+
+  /**
+   * Puppeteer launch options
+   * For pools owned by a handler, defaults to the handler's `puppeteerOptions`
+   */
+  launchOptions?: LaunchOptions;
+
+  /**
+   * Connect to running browsers (e.g. `{ browserWSEndpoint }`) instead of launching them.
+   * Browsers are disconnected, not closed, when retired.
+   */
+  connectOptions?: ConnectOptions;
+
+  /**
+   * Puppeteer implementation to launch or connect with, e.g. `puppeteer-core`
+   * @default the `puppeteer` package
+   */
+  puppeteer?: {
+    launch(options?: LaunchOptions): Promise<Browser>;
+    connect(options: ConnectOptions): Promise<Browser>;
+  };
+
+  /**
+   * Receives `browser-disconnected` when a browser crashes or its connection drops.
+   * For pools owned by a handler, defaults to the handler's `logger`.
+   * @default Logs errors with `console.error`
+   */
+  logger?: (event: ExportLogEvent) => void;
+}
+
+/**
+ * Options for the render queue
+ */
+export interface RenderQueueOptions {
+  /**
+   * Maximum number of renders running at once
+   * @default 4
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum number of renders waiting for a slot
+   * @default 20
+   */
+  maxQueueLength?: number;
+
+  /**
+   * Maximum number of running or waiting renders per client
+   * @default 2
+   */
+  maxPerClient?: number;
+
+  /**
+   * How long a render may wait for a slot before failing with 503, in milliseconds
+   * @default 30000
+   */
+  queueTimeout?: number;
+
+  /**
+   * Value of the `Retry-After` header on 429 and 503 responses, in seconds
+   * @default 5
+   */
+  retryAfter?: number;
+}
+
+/**
+ * Options for `createPdfMetrics()`
+ */
+export interface PdfMetricsOptions {
+  /**
+   * Prefix of the metric names
+   * @default 'pdf_export'
+   */
+  prefix?: string;
+
+  /**
+   * Upper bounds in seconds of the export duration histogram buckets
+   * @default [0.5, 1, 2.5, 5, 10, 20, 30, 60]
+   */
+  buckets?: number[];
+}
+
+/**
+ * Options for the rendered-PDF cache
+ */
+export interface PdfCacheOptions {
+  /**
+   * Where cached PDFs are stored
+   * @default createMemoryCacheStore()
+   */
+  store?: PdfCacheStore;
+
+  /**
+   * What identifies a version of the docs
+   * - `build-id`: the Next.js build ID, falling back to `content` without a production build
+   * - `content`: a hash of the cleaned page HTML (the page is still loaded, but not re-rendered)
+   * - a function returning a version string, e.g. a git commit SHA
+   * @default 'build-id'
+   */
+  fingerprint?: 'build-id' | 'content' | ((request: Request) => string | Promise<string>);
+
+  /**
+   * Which cookies make a cached PDF user-specific: `true` for all, a list of cookie names,
+   * or `false` to share cached PDFs between all users (only for public docs)
+   * @default true
+   */
+  varyByCookies?: boolean | string[];
+
+  /**
+   * Maximum age of a cached PDF in milliseconds (0 keeps entries until evicted or invalidated)
+   * @default 0
+   */
+  ttl?: number;
+}
+
+/**
+ * A rendered PDF stored in the cache
+ */
+export interface CachedPdf {
+  /**
+   * Pages included in the PDF, used for invalidation by path prefix
+   */
+  paths: string[];
+  body: Uint8Array;
+  headers: Record<string, string>;
+  etag: string;
+  lastModified: number;
+}
+
+/**
+ * Storage adapter for the PDF cache
+ */
+export interface PdfCacheStore {
+  get(key: string): CachedPdf | undefined | Promise<CachedPdf | undefined>;
+  set(key: string, entry: CachedPdf): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+
+  /**
+   * Remove every entry with a page under the prefix, matched by path segment:
+   * `/docs` covers `/docs` and `/docs/a`, not `/docs-internal`
+   * @returns Number of entries removed
+   */
+  invalidate(pathPrefix: string): number | Promise<number>;
+}
+
+/**
+ * Options for asynchronous export jobs
+ */
+export interface ExportJobOptions {
+  /**
+   * Where jobs and their results are stored
+   * @default createMemoryJobStore()
+   */
+  store?: ExportJobStore;
+
+  /**
+   * How long a finished job and its PDF can be fetched, in milliseconds.
+   * Unfinished jobs expire this long after their last progress update.
+   * @default 600000
+   */
+  resultTtl?: number;
+
+  /**
+   * Keeps the export running after the POST response is sent.
+   * Required on serverless platforms (Vercel, AWS Lambda, Netlify, Cloud Functions): pass
+   * `after` from `next/server` or your platform's `waitUntil`.
+   * @default Runs the task without awaiting it, on long-running servers only
+   */
+  runInBackground?: (task: Promise<void>) => void;
+}
+
+/**
+ * An asynchronous export job
+ */
+export interface ExportJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  phase: ExportPhase;
+
+  /**
+   * Completion estimate from 0 to 100
+   */
+  progress: number;
+  createdAt: number;
+  updatedAt: number;
+
+  /**
+   * When the job is removed: `resultTtl` after its last update, or after creation until it starts
+   */
+  expiresAt: number;
+  error?: string;
+  errorCode?: PdfExportErrorCode;
+  errorStatus?: number;
+  result?: {
+    body: Uint8Array;
+    headers: Record<string, string>;
+  };
+}
+
+/**
+ * Storage adapter for export jobs
+ */
+export interface ExportJobStore {
+  get(id: string): ExportJob | undefined | Promise<ExportJob | undefined>;
+  set(job: ExportJob): void | Promise<void>;
+  delete(id: string): void | Promise<void>;
+}
+
+/**
+ * A page that can be included in a bundle export
+ */
+export interface BundlePage {
+  /**
+   * Path of the page, e.g. `/docs/guides/installation`
+   */
+  path: string;
+
+  /**
+   * Title shown in the table of contents
+   * If not provided, derives from the page's first heading or `<title>`
+   */
+  title?: string;
+}
+
+/**
+ * Options for multi-page bundle exports
+ */
+export interface BundleOptions {
+  /**
+   * Title shown on the cover page, overridden by the `?title=` query parameter
+   * @default 'Documentation'
+   */
+  title?: string;
+
+  /**
+   * Subtitle shown on the cover page below the title
+   */
+  subtitle?: string;
+
+  /**
+   * Whether to prepend a generated cover page
+   * @default true
+   */
+  cover?: boolean;
+
+  /**
+   * Whether to prepend a table of contents with page numbers
+   * @default true
+   */
+  tableOfContents?: boolean;
+
+  /**
+   * Maximum number of pages in a single bundle
+   * @default 50
+   */
+  maxPages?: number;
+}
+
+/**
+ * A page that could not be rendered as part of a bundle
+ */
+export interface BundleFailure {
+  path: string;
+  code: PdfExportErrorCode;
+  error: string;
+}
+
+/**
+ * Options for a build-time export of many pages to files
+ */
+export interface StaticExportOptions {
+  /**
+   * Origin of a running server to render from, e.g. `http://localhost:3000`
+   * Defaults to the `baseUrl` export option
+   */
+  url?: string;
+
+  /**
+   * Paths to export, e.g. `['/docs', '/docs/installation']`
+   */
+  paths?: string[];
+
+  /**
+   * Sitemap to read paths from: a URL, a path on the server (e.g. `/sitemap.xml`) or a local file.
+   * Only the path of each `<loc>` is used, so production sitemaps work against a local server.
+   */
+  sitemap?: string;
+
+  /**
+   * Directory the PDFs and `manifest.json` are written to
+   * @default 'pdf-export'
+   */
+  outDir?: string;
+
+  /**
+   * Number of pages rendered in parallel
+   * @default 2
+   */
+  concurrency?: number;
+
+  /**
+   * Also write every page into one `bundle.pdf`, with optional cover and table of contents
+   * @default false
+   */
+  bundle?: boolean | BundleOptions;
+
+  /**
+   * Export options, the same as for `createPdfExportHandler`
+   */
+  options?: PdfExportOptions | PresetName;
+
+  /**
+   * Called after each page is written or fails
+   */
+  onPage?: (entry: StaticExportEntry) => void;
+}
+
+/**
+ * A page in the static export manifest
+ */
+export interface StaticExportEntry {
+  path: string;
+
+  /**
+   * Output file, relative to the output directory
+   */
+  file?: string;
+  bytes?: number;
+  durationMs: number;
+  title?: string;
+
+  /**
+   * Readiness steps that ran out of time
+   */
+  timeouts?: ReadinessStep['step'][];
+
+  /**
+   * Accessibility problems, with the `accessibility` option on
+   */
+  accessibility?: AccessibilityIssue[];
+  error?: string;
+  code?: PdfExportErrorCode;
+}
+
+/**
+ * Manifest written to `manifest.json` after a static export
+ */
+export interface StaticExportManifest {
+  origin: string;
+  startedAt: string;
+  durationMs: number;
+  pages: StaticExportEntry[];
+  failures: StaticExportEntry[];
+  bundle?: {
+    file?: string;
+    bytes?: number;
+    durationMs: number;
+    failures: BundleFailure[];
+    error?: string;
+    code?: PdfExportErrorCode;
+  };
+}
+
+/**
+ * Input of `exportPdf()`
+ */
+export interface ExportPdfInput {
+  /**
+   * Absolute URL of the page to render
+   */
+  url: string;
+
+  /**
+   * Cookies forwarded to the page, as a `Cookie` header value or name/value pairs
+   */
+  cookies?: string | Record<string, string>;
+
+  /**
+   * Configuration options or a preset name
+   */
+  options?: PdfExportOptions | PresetName;
+
+  /**
+   * Request passed to option callbacks such as `watermark` and `metadata`
+   * @default a GET request for `url`
+   */
+  request?: Request;
+
+  /**
+   * Receives progress updates while the page is exported
+   */
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Result of `exportPdf()`
+ */
+export interface ExportPdfResult {
+  /**
+   * The exported file: a PDF, or the output of the `format` option
+   */
+  pdf: Uint8Array;
+
+  /**
+   * Format of the exported file, also its file extension
+   */
+  format: OutputFormat;
+
+  /**
+   * Content type of the exported file, e.g. `application/pdf`
+   */
+  contentType: string;
+
+  /**
+   * Suggested download name without extension, derived from the title or the URL path
+   */
+  filename: string;
+
+  /**
+   * Metadata of the page; written into PDF and EPUB files
+   */
+  metadata: PdfMetadata;
+
+  /**
+   * How long each readiness step took and whether it ran out of time
+   */
+  readiness: ReadinessStep[];
+
+  /**
+   * Accessibility problems, with the `accessibility` option on
+   */
+  accessibility?: AccessibilityIssue[];
+}
+
+/**
+ * Lifecycle hooks of an export
+ *
+ * @example
+ * hooks: {
+ *   onRequest: (request) => (request.headers.get('x-print') ? { layout: 'paginated' } : undefined),
+ *   beforeNavigate: (page) => page.setExtraHeaders({ 'x-pdf-export': '1' }),
+ *   transforms: [browserTransform((selector) => document.querySelector(selector)?.remove(), '.banner')],
+ *   afterPdf: (pdf) => stamp(pdf),
+ * }
+ */
+export interface ExportHooks {
+  /**
+   * Called first for every export request. Return options to apply to this request,
+   * or a `Response` to answer without exporting (e.g. a 401). Throwing fails the export.
+   */
+  onRequest?: (
+    request: Request
+  ) => void | RequestExportOptions | Response | Promise<void | RequestExportOptions | Response>;
+
+  /**
+   * Called before the page navigates, e.g. to set headers or emulation
+   */
+  beforeNavigate?: (page: RenderPage, context: ExportHookContext) => void | Promise<void>;
+
+  /**
+   * Called once the page has loaded, before accordions and tabs are expanded
+   */
+  afterLoad?: (page: RenderPage, context: ExportHookContext) => void | Promise<void>;
+
+  /**
+   * Functions run in the browser after cleanup, created with `browserTransform()`
+   */
+  transforms?: BrowserTransform[];
+
+  /**
+   * Called after cleanup and transforms, before layout rules, the watermark and the outline
+   */
+  afterCleanup?: (page: RenderPage, context: ExportHookContext) => void | Promise<void>;
+
+  /**
+   * Post-process the finished PDF (outline and metadata included); return a buffer to replace it
+   */
+  afterPdf?: (
+    pdf: Uint8Array,
+    context: { request: Request; metadata: PdfMetadata }
+  ) => void | Uint8Array | Promise<void | Uint8Array>;
+}
+
+/**
+ * Context passed to page hooks
+ */
+export interface ExportHookContext {
+  /**
+   * Request that started the export; a GET for the page in static exports
+   */
+  request: Request;
+
+  /**
+   * URL of the page being rendered
+   */
+  url: string;
+}
+
+/**
+ * Options `onRequest` may change for a single request
+ */
+export type RequestExportOptions = Omit<
+  PdfExportOptions,
+  | 'browserPool'
+  | 'renderer'
+  | 'puppeteerOptions'
+  | 'queue'
+  | 'identifyClient'
+  | 'trustProxy'
+  | 'cache'
+  | 'jobs'
+  | 'hooks'
+  | 'onMetrics'
+  | 'logger'
+  | 'resolvePages'
+  | 'allowRequestOverrides'
+>;
+
+/**
+ * Function run in the browser with serialisable arguments
+ */
+export interface BrowserTransform {
+  script: (...args: never[]) => unknown;
+  args: unknown[];
+}
+
+/**
+ * Props for the ExportButton component
+ */
+export interface ExportButtonProps {
+  /**
+   * API endpoint path for PDF generation
+   * @default '/api/export-pdf'
+   */
+  apiPath?: string;
+
+  /**
+   * Additional CSS class names
+   */
+  className?: string;
+
+  /**
+   * CSS class names for the format select shown when `formats` offers a choice
+   */
+  selectClassName?: string;
+
+  /**
+   * Custom content to render inside the button
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Button title/tooltip
+   * @default `Export as ${format}`, e.g. 'Export as PDF', or 'Export this section as PDF'
+   */
+  title?: string;
+
+  /**
+   * Callback fired when export starts
+   */
+  onExportStart?: () => void;
+
+  /**
+   * Callback fired when export completes successfully
+   */
+  onExportSuccess?: () => void;
+
+  /**
+   * Callback fired when export fails, with the error's `code` and HTTP `status`
+   */
+  onExportError?: (error: PdfExportError) => void;
+
+  /**
+   * Callback fired when the server is busy and the export will be retried
+   */
+  onExportRetry?: (attempt: number, delay: number) => void;
+
+  /**
+   * How many times to retry when the server responds with 429 or 503
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * `sync` downloads directly from `apiPath`; `async` starts an export job
+   * at `jobsApiPath`, polls its progress and downloads the result
+   * @default 'sync'
+   */
+  mode?: 'sync' | 'async';
+
+  /**
+   * API endpoint path for export jobs (async mode)
+   * @default `${apiPath}/jobs`
+   */
+  jobsApiPath?: string;
+
+  /**
+   * How often to poll the job status in async mode, in milliseconds
+   * @default 1000
+   */
+  pollInterval?: number;
+
+  /**
+   * Callback fired with job progress in async mode
+   */
+  onExportProgress?: (progress: ExportProgress) => void;
+
+  /**
+   * Color scheme for this export, overriding the handler's `colorScheme`
+   */
+  colorScheme?: ColorScheme;
+
+  /**
+   * Format to export, overriding the handler's `format`
+   */
+  format?: OutputFormat;
+
+  /**
+   * Export only the section under the heading with this id
+   */
+  section?: string;
+
+  /**
+   * Export the section named by `location.hash` when clicked, unless `section` is set.
+   * Without a hash the whole page is exported.
+   */
+  sectionFromHash?: boolean;
+
+  /**
+   * Options sent as query parameters; the handler must allow them in `allowRequestOverrides`
+   * @example { paperFormat: 'Letter', orientation: 'landscape', includeImages: false }
+   */
+  overrides?: RequestOverrides;
 
   /**
-   * Callback fired when export fails
+   * Formats the user can choose from in a select next to the button.
+   * The first entry is preselected unless `format` is one of them.
    */
-  onExportError?: (error: Error) => void;
+  formats?: OutputFormat[];
 
   /**
-   * Custom filename for the downloaded PDF (without extension)
-   * If not provided, derives from current URL path
+   * Custom filename for the download (without extension)
+   * If not provided, uses the server's filename (from the page title) or the current URL path
    */
   filename?: string;
 
@@ -144,18 +1538,30 @@ export const presets = {
       '[data-radix-accordion-content]',
       '[data-radix-collapsible-content]',
     ],
+    tabContainerSelectors: ['div:has(> [role="tablist"])'],
+    tabTriggerSelectors: ['[role="tab"]'],
+    tabPanelSelectors: ['[role="tabpanel"]'],
+    themeAttribute: 'class',
   },
   docusaurus: {
     contentSelector: 'article',
     removeSelectors: ['.theme-doc-sidebar-container', '.table-of-contents', 'nav', '.print-hidden'],
     accordionTriggerSelectors: ['.collapsible-button', 'button[aria-expanded="false"]'],
     accordionContentSelectors: ['.collapsible-content'],
+    tabContainerSelectors: ['.tabs-container'],
+    tabTriggerSelectors: ['[role="tab"]'],
+    tabPanelSelectors: ['[role="tabpanel"]'],
+    themeAttribute: 'data-theme',
   },
   nextra: {
     contentSelector: 'article',
     removeSelectors: ['nav', 'aside', '.nextra-sidebar', '.nextra-toc', '.print-hidden'],
     accordionTriggerSelectors: ['button[data-state="closed"]'],
     accordionContentSelectors: ['[data-radix-collapsible-content]'],
+    tabContainerSelectors: ['div:has(> [role="tablist"])'],
+    tabTriggerSelectors: ['[role="tab"]'],
+    tabPanelSelectors: ['[role="tabpanel"]'],
+    themeAttribute: 'class',
   },
 } as const;
 
@@ -0,0 +1,84 @@
+import type { PdfExportOptions, PdfLayout, WatermarkOptions } from './types.js';
+import { escapeHtml } from './utils.js';
+import type { RenderPage } from './renderer.js';
+
+const defaultWatermark = {
+  opacity: 0.12,
+  color: '#000000',
+  fontSize: 72,
+  angle: -45,
+};
+
+// Size of one repeated watermark tile in continuous layout
+const tileSize = 600;
+
+/**
+ * Resolve the watermark for a request, calling the option if it is a function
+ */
+export async function resolveWatermark(
+  watermark: PdfExportOptions['watermark'],
+  request: Request
+): Promise<WatermarkOptions | undefined> {
+  const resolved = typeof watermark === 'function' ? await watermark(request) : watermark;
+  return resolved?.text || resolved?.image ? resolved : undefined;
+}
+
+/**
+ * Draw the watermark over the prepared page.
+ * - Paginated layout: a fixed element, which Chrome repeats on every printed page
+ * - Continuous layout: a tiled overlay covering the whole document
+ */
+export async function applyWatermark(
+  page: RenderPage,
+  watermark: WatermarkOptions,
+  layout: PdfLayout
+) {
+  const options = { ...defaultWatermark, ...watermark };
+
+  const content = options.image
+    ? `<img src="${escapeHtml(options.image)}" style="max-width: 60%; max-height: 60%;" alt="" />`
+    : `<span style="font: 700 ${options.fontSize}px sans-serif; color: ${escapeHtml(options.color)}; white-space: nowrap;">${escapeHtml(options.text ?? '')}</span>`;
+
+  const tile = options.image
+    ? `url("${options.image.replace(/"/g, '%22')}")`
+    : `url("data:image/svg+xml,${encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${tileSize}" height="${tileSize}">` +
+          `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle" ` +
+          `transform="rotate(${options.angle} ${tileSize / 2} ${tileSize / 2})" ` +
+          `font-family="sans-serif" font-weight="700" font-size="${options.fontSize}" ` +
+          `fill="${escapeHtml(options.color)}">${escapeHtml(options.text ?? '')}</text></svg>`
+      )}")`;
+
+  await page.evaluate(
+    ({ layout, content, tile, opacity, angle, tileSize }) => {
+      const overlay = document.createElement('div');
+      overlay.dataset.pdfWatermark = '';
+      overlay.setAttribute('aria-hidden', 'true');
+      overlay.style.pointerEvents = 'none';
+      overlay.style.zIndex = '2147483647';
+      overlay.style.opacity = String(opacity);
+
+      if (layout === 'paginated') {
+        overlay.style.position = 'fixed';
+        overlay.style.inset = '0';
+        overlay.style.display = 'flex';
+        overlay.style.alignItems = 'center';
+        overlay.style.justifyContent = 'center';
+        overlay.style.transform = `rotate(${angle}deg)`;
+        overlay.innerHTML = content;
+      } else {
+        overlay.style.position = 'absolute';
+        overlay.style.top = '0';
+        overlay.style.left = '0';
+        overlay.style.width = '100%';
+        overlay.style.height = `${document.documentElement.scrollHeight}px`;
+        overlay.style.backgroundImage = tile;
+        overlay.style.backgroundRepeat = 'repeat';
+        overlay.style.backgroundSize = `${tileSize}px auto`;
+      }
+
+      document.body.appendChild(overlay);
+    },
+    { layout, content, tile, opacity: options.opacity, angle: options.angle, tileSize }
+  );
+}
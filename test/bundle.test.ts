@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isBundleRequest, resolveBundleOptions, resolveBundlePages } from '../src/bundle.js';
+import { resolveOptions } from '../src/pipeline.js';
+
+const pages = [
+  { path: '/docs', title: 'Docs' },
+  { path: '/docs/setup', title: 'Setup' },
+  { path: '/docs/guides/tabs', title: 'Tabs' },
+  { path: '/docs-internal/notes', title: 'Notes' },
+  { path: '/blog/launch', title: 'Launch' },
+];
+
+const config = resolveOptions({ resolvePages: async () => pages });
+const resolve = (query: string, options = config) =>
+  resolveBundlePages(new URLSearchParams(query), options);
+
+describe('resolveBundlePages', () => {
+  it('selects the prefix and the pages under it', async () => {
+    expect((await resolve('prefix=/docs')).map((page) => page.path)).toEqual([
+      '/docs',
+      '/docs/setup',
+      '/docs/guides/tabs',
+    ]);
+    expect((await resolve('prefix=/docs/guides/')).map((page) => page.path)).toEqual([
+      '/docs/guides/tabs',
+    ]);
+  });
+
+  it('keeps the order of paths and looks up known titles', async () => {
+    expect(await resolve('paths=/blog/launch, /unknown&paths=/docs/setup,')).toEqual([
+      { path: '/blog/launch', title: 'Launch' },
+      { path: '/unknown' },
+      { path: '/docs/setup', title: 'Setup' },
+    ]);
+  });
+
+  it('works without resolvePages', async () => {
+    const bare = resolveOptions();
+    expect(await resolve('paths=/a,/b', bare)).toEqual([{ path: '/a' }, { path: '/b' }]);
+    expect(await resolve('prefix=/docs', bare)).toEqual([]);
+  });
+});
+
+describe('isBundleRequest', () => {
+  it('detects paths and prefix parameters', () => {
+    expect(isBundleRequest(new URLSearchParams('paths=/a'))).toBe(true);
+    expect(isBundleRequest(new URLSearchParams('prefix=/docs'))).toBe(true);
+    expect(isBundleRequest(new URLSearchParams('path=/docs'))).toBe(false);
+  });
+});
+
+describe('resolveBundleOptions', () => {
+  it('prefers the requested title over the configured one', () => {
+    expect(resolveBundleOptions({ title: 'Guide', maxPages: 10 }, 'Requested')).toMatchObject({
+      title: 'Requested',
+      maxPages: 10,
+      cover: true,
+    });
+    expect(resolveBundleOptions({ title: 'Guide' }, null).title).toBe('Guide');
+    expect(resolveBundleOptions(undefined).title).toBe('Documentation');
+  });
+});
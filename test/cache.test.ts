@@ -0,0 +1,119 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createFileSystemCacheStore,
+  createMemoryCacheStore,
+  createPdfCache,
+  renderingOptions,
+} from '../src/cache.js';
+import { resolveOptions } from '../src/pipeline.js';
+import type { CachedPdf, PdfExportOptions } from '../src/types.js';
+
+const entry = (...paths: string[]): CachedPdf => ({
+  paths,
+  body: new Uint8Array([1, 2, 3]),
+  headers: {},
+  etag: '"etag"',
+  lastModified: Date.now(),
+});
+
+describe('cache key', () => {
+  const cache = createPdfCache({ fingerprint: () => 'v1' });
+
+  const keyFor = async (options: PdfExportOptions, cookie?: string) => {
+    const request = new Request('https://docs.example.com/api/export-pdf', {
+      headers: cookie ? { cookie } : {},
+    });
+    return cache.resolveKey({
+      request,
+      paths: ['/docs/a'],
+      options: renderingOptions(resolveOptions(options)),
+    });
+  };
+
+  it('is stable and final with a fingerprint', async () => {
+    const first = await keyFor({ paperFormat: 'Letter' });
+    expect(first.final).toBe(true);
+    expect(await keyFor({ paperFormat: 'Letter' })).toEqual(first);
+  });
+
+  it('changes with options that affect the output', async () => {
+    const base = await keyFor({});
+    expect((await keyFor({ paperFormat: 'Letter' })).key).not.toBe(base.key);
+    expect((await keyFor({ fitting: { code: 'shrink' } })).key).not.toBe(base.key);
+  });
+
+  it('ignores options that do not affect the output, and functions', async () => {
+    const renderer: { run(): never; close(): Promise<void>; self?: unknown } = {
+      run: () => {
+        throw new Error('unused');
+      },
+      close: async () => undefined,
+    };
+    // Circular values outside the rendering options must not break the key
+    renderer.self = renderer;
+
+    const base = await keyFor({});
+    expect(
+      await keyFor({
+        renderer: renderer as never,
+        queue: { maxConcurrent: 1 },
+        timeout: 5000,
+        onMetrics: () => undefined,
+      })
+    ).toEqual(base);
+  });
+
+  it('includes the source of browser transforms', async () => {
+    const transform = (script: () => void) => ({ hooks: { transforms: [{ script, args: [] }] } });
+    const first = await keyFor(transform(() => document.body.remove()));
+    const second = await keyFor(transform(() => document.title));
+    expect(first.key).not.toBe(second.key);
+  });
+
+  it('varies by cookies, in any order', async () => {
+    const base = await keyFor({}, 'a=1; b=2');
+    expect(await keyFor({}, 'b=2; a=1')).toEqual(base);
+    expect((await keyFor({}, 'a=1; b=3')).key).not.toBe(base.key);
+  });
+});
+
+describe('memory store invalidation', () => {
+  it('removes entries under the prefix by path segment', async () => {
+    const store = createMemoryCacheStore();
+    store.set('docs', entry('/docs'));
+    store.set('page', entry('/docs/a?tab=npm'));
+    store.set('bundle', entry('/guides/a', '/docs/b'));
+    store.set('internal', entry('/docs-internal/a'));
+
+    expect(await store.invalidate('/docs')).toBe(3);
+    expect(store.get('internal')).toBeDefined();
+    expect(store.get('docs')).toBeUndefined();
+  });
+});
+
+describe('filesystem store invalidation', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+  });
+
+  it('removes entries under the prefix by path segment', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'pdf-cache-'));
+    const store = createFileSystemCacheStore(directory);
+    await store.set('page', entry('/docs/a'));
+    await store.set('internal', entry('/docs-internal/a'));
+
+    expect(await store.invalidate('/docs/')).toBe(1);
+    expect(await store.get('page')).toBeUndefined();
+    expect((await store.get('internal'))?.body).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('returns 0 when the directory does not exist', async () => {
+    const store = createFileSystemCacheStore(join(tmpdir(), 'pdf-cache-missing-directory'));
+    expect(await store.invalidate('/docs')).toBe(0);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseDebugMode } from '../src/debug.js';
+
+describe('parseDebugMode', () => {
+  it('defaults an empty value to report', () => {
+    expect(parseDebugMode('')).toBe('report');
+  });
+
+  it('accepts report and preview', () => {
+    expect(parseDebugMode('report')).toBe('report');
+    expect(parseDebugMode('preview')).toBe('preview');
+  });
+
+  it('rejects unknown modes as invalid requests', () => {
+    expect(() => parseDebugMode('html')).toThrow(
+      expect.objectContaining({ code: 'invalid-request', status: 400 })
+    );
+  });
+});
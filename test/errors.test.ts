@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromErrorBody,
+  pageStatusError,
+  PdfExportError,
+  toPdfExportError,
+  type PdfExportErrorCode,
+} from '../src/errors.js';
+import { errorResponse } from '../src/route-handler.js';
+
+describe('PdfExportError', () => {
+  it.each([
+    ['invalid-request', 400],
+    ['forbidden', 403],
+    ['request-rejected', 403],
+    ['page-not-found', 404],
+    ['page-unauthorized', 401],
+    ['page-error', 502],
+    ['navigation-timeout', 504],
+    ['content-not-found', 422],
+    ['browser-launch-failed', 503],
+    ['busy', 429],
+    ['render-failed', 500],
+    ['network-error', 0],
+  ] as [PdfExportErrorCode, number][])('maps %s to status %i', (code, status) => {
+    expect(new PdfExportError(code, 'message').status).toBe(status);
+  });
+
+  it('accepts an explicit status', () => {
+    expect(new PdfExportError('busy', 'message', { status: 503 }).status).toBe(503);
+  });
+});
+
+describe('toPdfExportError', () => {
+  it('keeps export errors and wraps anything else', () => {
+    const error = new PdfExportError('forbidden', 'No');
+    expect(toPdfExportError(error)).toBe(error);
+
+    const cause = new Error('boom');
+    expect(toPdfExportError(cause)).toMatchObject({
+      code: 'render-failed',
+      status: 500,
+      message: 'Failed to generate PDF',
+      cause,
+    });
+  });
+});
+
+describe('pageStatusError', () => {
+  it.each([
+    [404, 'page-not-found', 404],
+    [401, 'page-unauthorized', 401],
+    [403, 'page-unauthorized', 403],
+    [500, 'page-error', 502],
+  ])('maps a %i page to %s', (pageStatus, code, status) => {
+    expect(pageStatusError(pageStatus, 'https://docs.example.com/docs/a?b=1')).toMatchObject({
+      code,
+      status,
+    });
+  });
+
+  it('names the path only', () => {
+    expect(pageStatusError(404, 'https://docs.example.com/docs/a?token=1').message).toBe(
+      'Page /docs/a was not found'
+    );
+  });
+});
+
+describe('fromErrorBody', () => {
+  it('rebuilds the error of a response body', () => {
+    const error = fromErrorBody(
+      { error: 'Page /docs was not found', code: 'page-not-found', details: 'stack' },
+      404
+    );
+    expect(error).toBeInstanceOf(PdfExportError);
+    expect(error).toMatchObject({
+      code: 'page-not-found',
+      status: 404,
+      message: 'Page /docs was not found',
+      details: 'stack',
+    });
+  });
+
+  it('uses the code status when no status is given', () => {
+    expect(fromErrorBody({ error: 'Busy', code: 'busy' }).status).toBe(429);
+  });
+
+  it.each([{ code: 'unknown' }, { code: 'toString' }, {}, null])(
+    'falls back to render-failed for %j',
+    (body) => {
+      expect(fromErrorBody(body, 500, 'Export failed')).toMatchObject({
+        code: 'render-failed',
+        status: 500,
+        message: 'Export failed',
+      });
+    }
+  );
+
+  it('round-trips errorResponse', async () => {
+    const response = errorResponse(
+      new PdfExportError('content-not-found', 'No content', { cause: new Error('selector') }),
+      'message'
+    );
+    const error = fromErrorBody(await response.json(), response.status);
+    expect(error).toMatchObject({
+      code: 'content-not-found',
+      status: 422,
+      message: 'No content',
+      details: 'Error: selector',
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeaderFooter } from '../src/header-footer.js';
+
+const margins = { top: 30, right: 20, bottom: 30, left: 10 };
+const details = { title: 'Setup <Guide> & "more"', url: 'https://docs.example.com/a?b=1&c=2' };
+
+describe('buildHeaderFooter', () => {
+  it('keeps the margins when there are no templates', () => {
+    expect(buildHeaderFooter({ headerFooterHeight: 36, margins: { top: 5 } }, details)).toEqual({
+      displayHeaderFooter: false,
+      margin: { top: 5, right: 0, bottom: 0, left: 0 },
+    });
+  });
+
+  it('escapes page details', () => {
+    const { headerTemplate } = buildHeaderFooter(
+      {
+        headerTemplate: '{{title}} | {{ url }} | {{version}}',
+        headerFooterHeight: 36,
+        docVersion: '<v2>',
+        margins,
+      },
+      details
+    );
+
+    expect(headerTemplate).toContain(
+      'Setup &lt;Guide&gt; &amp; &quot;more&quot; | https://docs.example.com/a?b=1&amp;c=2 | &lt;v2&gt;'
+    );
+    expect(headerTemplate).not.toContain('<Guide>');
+  });
+
+  it('leaves page numbers to Chrome and unknown placeholders as they are', () => {
+    const { footerTemplate } = buildHeaderFooter(
+      {
+        footerTemplate: 'Page {{pageNumber}} of {{totalPages}} {{unknown}}',
+        headerFooterHeight: 36,
+        margins,
+      },
+      details
+    );
+
+    expect(footerTemplate).toContain(
+      'Page <span class="pageNumber"></span> of <span class="totalPages"></span> {{unknown}}'
+    );
+    expect(footerTemplate).toContain('margin: 0 20px 0 10px;');
+  });
+
+  it('makes room for each template and blanks the missing one', () => {
+    const options = buildHeaderFooter(
+      { footerTemplate: '{{pageNumber}}', headerFooterHeight: 36, margins },
+      details
+    );
+
+    expect(options.displayHeaderFooter).toBe(true);
+    expect(options.headerTemplate).toBe('<span></span>');
+    expect(options.margin).toEqual({ top: 30, right: 20, bottom: 66, left: 10 });
+  });
+});
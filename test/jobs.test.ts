@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { createMemoryJobStore, createPdfExportJobHandler } from '../src/jobs.js';
+import type { RenderPage, Renderer } from '../src/renderer.js';
+import type { PdfExportOptions } from '../src/types.js';
+
+const endpoint = 'http://localhost:3000/api/export-pdf/jobs';
+
+function nextRequest(url: string, init?: RequestInit) {
+  return Object.assign(new Request(url, init), { nextUrl: new URL(url) }) as NextRequest;
+}
+
+/**
+ * Renderer whose pages answer every navigation with `status`, once `release` is called
+ */
+function createFakeRenderer(status: number) {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const page = new Proxy({} as RenderPage, {
+    get: (_, name) => {
+      if (name === 'goto') return async () => ({ status });
+      if (name === 'then') return undefined;
+      return async () => undefined;
+    },
+  });
+
+  const renderer: Renderer = {
+    run: async (task) => {
+      await released;
+      return task({ newPage: async () => page });
+    },
+    close: async () => undefined,
+  };
+
+  return { renderer, release };
+}
+
+function createHandler(options: PdfExportOptions) {
+  const tasks: Promise<void>[] = [];
+  const handler = createPdfExportJobHandler({
+    baseUrl: 'http://localhost:3000',
+    cache: false,
+    queue: false,
+    logger: () => undefined,
+    ...options,
+    jobs: { runInBackground: (task) => tasks.push(task), ...options.jobs },
+  });
+  return { ...handler, settle: () => Promise.all(tasks) };
+}
+
+async function status(handler: ReturnType<typeof createHandler>, id: string) {
+  return (await handler.GET(nextRequest(`${endpoint}?id=${id}`))).json();
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('createPdfExportJobHandler', () => {
+  it('reports a queued job, then records the render failure', async () => {
+    const { renderer, release } = createFakeRenderer(404);
+    const handler = createHandler({ renderer });
+
+    const created = await handler.POST(
+      nextRequest(`${endpoint}?path=/docs/missing`, { method: 'POST' })
+    );
+    expect(created.status).toBe(202);
+    const job = await created.json();
+    expect(job).toMatchObject({ status: 'queued', progress: 0 });
+    expect(job.statusUrl).toBe(`/api/export-pdf/jobs?id=${job.id}`);
+    expect(job.downloadUrl).toBeUndefined();
+
+    release();
+    await handler.settle();
+
+    expect(await status(handler, job.id)).toMatchObject({
+      status: 'failed',
+      phase: 'failed',
+      code: 'page-not-found',
+    });
+    const download = await handler.GET(nextRequest(`${endpoint}?id=${job.id}&download=1`));
+    expect(download.status).toBe(404);
+    expect(await download.json()).toMatchObject({ code: 'page-not-found' });
+  });
+
+  it('serves the finished file', async () => {
+    const pdf = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
+    const handler = createHandler({
+      hooks: {
+        onRequest: () => new Response(pdf, { headers: { 'content-type': 'application/pdf' } }),
+      },
+    });
+
+    const job = await (
+      await handler.POST(
+        nextRequest(endpoint, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ path: '/docs/page' }),
+        })
+      )
+    ).json();
+    await handler.settle();
+
+    const done = await status(handler, job.id);
+    expect(done).toMatchObject({ status: 'done', progress: 100 });
+    expect(done.downloadUrl).toBe(`/api/export-pdf/jobs?id=${job.id}&download=1`);
+
+    const download = await handler.GET(nextRequest(new URL(done.downloadUrl, endpoint).href));
+    expect(download.headers.get('content-type')).toBe('application/pdf');
+    expect(new Uint8Array(await download.arrayBuffer())).toEqual(pdf);
+  });
+
+  it('rejects requests without a path or id', async () => {
+    const handler = createHandler({});
+    expect((await handler.POST(nextRequest(endpoint, { method: 'POST' }))).status).toBe(400);
+    expect((await handler.GET(nextRequest(endpoint))).status).toBe(400);
+    expect((await handler.GET(nextRequest(`${endpoint}?id=unknown`))).status).toBe(404);
+  });
+
+  it('answers 409 for downloads of unfinished jobs', async () => {
+    const { renderer } = createFakeRenderer(200);
+    const handler = createHandler({ renderer });
+    const job = await (
+      await handler.POST(nextRequest(`${endpoint}?path=/docs/page`, { method: 'POST' }))
+    ).json();
+
+    const download = await handler.GET(nextRequest(`${endpoint}?id=${job.id}&download=1`));
+    expect(download.status).toBe(409);
+  });
+
+  it('expires jobs resultTtl after their last update', async () => {
+    vi.useFakeTimers({ now: 0, toFake: ['Date'] });
+    const { renderer, release } = createFakeRenderer(404);
+    const handler = createHandler({ renderer, jobs: { resultTtl: 1000 } });
+    const job = await (
+      await handler.POST(nextRequest(`${endpoint}?path=/docs/page`, { method: 'POST' }))
+    ).json();
+    expect(job.expiresAt).toBe(new Date(1000).toISOString());
+
+    vi.setSystemTime(800);
+    release();
+    await handler.settle();
+    expect((await status(handler, job.id)).expiresAt).toBe(new Date(1800).toISOString());
+
+    vi.setSystemTime(1801);
+    expect((await handler.GET(nextRequest(`${endpoint}?id=${job.id}`))).status).toBe(404);
+  });
+
+  it('refuses to create jobs on serverless platforms without runInBackground', async () => {
+    vi.stubEnv('VERCEL', '1');
+    const handler = createPdfExportJobHandler({ baseUrl: 'http://localhost:3000' });
+
+    const response = await handler.POST(
+      nextRequest(`${endpoint}?path=/docs/page`, { method: 'POST' })
+    );
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/runInBackground/);
+  });
+});
+
+describe('createMemoryJobStore', () => {
+  it('drops expired jobs when read', () => {
+    const store = createMemoryJobStore();
+    const job = { id: 'a', status: 'queued', phase: 'queued', progress: 0 } as const;
+    store.set({ ...job, createdAt: 0, updatedAt: 0, expiresAt: Date.now() + 1000 });
+    expect(store.get('a')).toBeDefined();
+
+    store.set({ ...job, id: 'b', createdAt: 0, updatedAt: 0, expiresAt: Date.now() - 1 });
+    expect(store.get('b')).toBeUndefined();
+  });
+});
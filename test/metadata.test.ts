@@ -0,0 +1,83 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { writeMetadata } from '../src/metadata.js';
+
+const creationDate = new Date('2024-05-01T12:00:00.000Z');
+
+async function blankPdf() {
+  const doc = await PDFDocument.create();
+  doc.addPage();
+  return doc.save();
+}
+
+async function load(pdf: Uint8Array) {
+  const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+  const stream = doc.catalog.lookup(PDFName.of('Metadata'), PDFRawStream);
+  const xmp = new TextDecoder().decode(stream.getContents());
+  const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+  return { doc, xmp, info };
+}
+
+describe('writeMetadata', () => {
+  it('writes the info dictionary', async () => {
+    const { doc, info } = await load(
+      await writeMetadata(await blankPdf(), {
+        title: 'Setup',
+        author: 'Docs Team',
+        subject: 'Installing the package',
+        keywords: ['install', 'npm'],
+        language: 'de',
+        version: '2.1',
+        creationDate,
+      })
+    );
+
+    expect(doc.getTitle()).toBe('Setup');
+    expect(doc.getAuthor()).toBe('Docs Team');
+    expect(doc.getSubject()).toBe('Installing the package');
+    expect(doc.getKeywords()).toBe('install, npm');
+    expect(doc.getCreator()).toBe('fumadocs-pdf-export');
+    expect(doc.getCreationDate()).toEqual(creationDate);
+    expect(info.lookup(PDFName.of('Version'), PDFHexString).decodeText()).toBe('2.1');
+    expect(doc.catalog.get(PDFName.of('Lang'))?.toString()).toContain('de');
+  });
+
+  it('mirrors the metadata in XMP, escaped', async () => {
+    const { xmp } = await load(
+      await writeMetadata(await blankPdf(), {
+        title: 'Tabs & <Accordions>',
+        keywords: ['a&b', 'c'],
+        language: 'fr',
+        creationDate,
+      })
+    );
+
+    expect(xmp).toContain(
+      '<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Tabs &amp; &lt;Accordions&gt;</rdf:li>' +
+        '<rdf:li xml:lang="fr">Tabs &amp; &lt;Accordions&gt;</rdf:li></rdf:Alt></dc:title>'
+    );
+    expect(xmp).toContain('<rdf:li>a&amp;b</rdf:li><rdf:li>c</rdf:li>');
+    expect(xmp).toContain('<pdf:Keywords>a&amp;b, c</pdf:Keywords>');
+    expect(xmp).toContain('<xmp:CreateDate>2024-05-01T12:00:00.000Z</xmp:CreateDate>');
+    expect(xmp).not.toContain('<pdfaid:part>');
+  });
+
+  it('uses only the x-default language without a page language', async () => {
+    const { xmp } = await load(
+      await writeMetadata(await blankPdf(), { title: 'Setup', creationDate })
+    );
+
+    expect(xmp).toContain('<rdf:Alt><rdf:li xml:lang="x-default">Setup</rdf:li></rdf:Alt>');
+    expect(xmp).not.toContain('<dc:language>');
+  });
+
+  it('identifies PDF/A and adds an output intent', async () => {
+    const { doc, xmp } = await load(
+      await writeMetadata(await blankPdf(), { title: 'Setup', creationDate }, { pdfA: true })
+    );
+
+    expect(xmp).toContain('<pdfaid:part>2</pdfaid:part>');
+    expect(xmp).toContain('<pdfaid:conformance>B</pdfaid:conformance>');
+    expect(doc.catalog.lookup(PDFName.of('OutputIntents'), PDFArray).size()).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createPdfMetrics, serverTiming } from '../src/metrics.js';
+import type { ExportMetrics } from '../src/types.js';
+
+const metrics = (overrides: Partial<ExportMetrics> = {}): ExportMetrics => ({
+  paths: ['/docs/a'],
+  format: 'pdf',
+  cache: 'miss',
+  status: 200,
+  durationMs: 1500,
+  phases: { navigating: 1000, rendering: 500 },
+  bytes: 2048,
+  pageCount: 3,
+  imagesLoaded: 2,
+  ...overrides,
+});
+
+describe('createPdfMetrics', () => {
+  it('writes counters, histograms and summaries in the text format', () => {
+    const registry = createPdfMetrics({ buckets: [2, 1] });
+    registry.record(metrics());
+    registry.record(metrics({ status: 500, durationMs: 2500, bytes: undefined }));
+
+    const lines = registry.toPrometheus().split('\n');
+    expect(lines).toContain('# TYPE pdf_export_requests_total counter');
+    expect(lines).toContain('pdf_export_requests_total{format="pdf",status="200",cache="miss"} 1');
+    expect(lines).toContain('pdf_export_requests_total{format="pdf",status="500",cache="miss"} 1');
+    expect(lines).toContain('pdf_export_duration_seconds_bucket{format="pdf",le="1"} 0');
+    expect(lines).toContain('pdf_export_duration_seconds_bucket{format="pdf",le="2"} 1');
+    expect(lines).toContain('pdf_export_duration_seconds_bucket{format="pdf",le="+Inf"} 2');
+    expect(lines).toContain('pdf_export_duration_seconds_sum{format="pdf"} 4');
+    expect(lines).toContain('pdf_export_duration_seconds_count{format="pdf"} 2');
+    expect(lines).toContain('pdf_export_phase_duration_seconds_sum{phase="navigating"} 2');
+    expect(lines).toContain('pdf_export_bytes_total{format="pdf"} 2048');
+    expect(lines).toContain('pdf_export_pages_total 6');
+    expect(lines.at(-1)).toBe('');
+  });
+
+  it('uses the prefix and escapes label values', () => {
+    const registry = createPdfMetrics({ prefix: 'docs' });
+    registry.record(metrics({ format: 'a"b\\c' as ExportMetrics['format'] }));
+    expect(registry.toPrometheus()).toContain('docs_bytes_total{format="a\\"b\\\\c"} 2048');
+  });
+
+  it('serves the text format', async () => {
+    const response = createPdfMetrics().handler();
+    expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+    expect(await response.text()).toContain('# HELP pdf_export_requests_total');
+  });
+});
+
+describe('serverTiming', () => {
+  it('lists each phase and the total', () => {
+    expect(serverTiming(metrics())).toBe('navigating;dur=1000, rendering;dur=500, total;dur=1500');
+  });
+});
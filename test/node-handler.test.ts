@@ -0,0 +1,37 @@
+import type { IncomingMessage } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { toRequest } from '../src/node-handler.js';
+import { getClientIp } from '../src/render-queue.js';
+
+function incoming(headers: Record<string, string>) {
+  return {
+    method: 'GET',
+    url: '/api/export-pdf?path=/docs',
+    headers: { host: 'docs.example.com', ...headers },
+    socket: { remoteAddress: '203.0.113.7' },
+  } as unknown as IncomingMessage;
+}
+
+describe('toRequest', () => {
+  it('keeps the URL and headers', () => {
+    const request = toRequest(incoming({ cookie: 'session=1' }), false);
+    expect(request.url).toBe('http://docs.example.com/api/export-pdf?path=/docs');
+    expect(request.headers.get('cookie')).toBe('session=1');
+  });
+
+  it('identifies clients by the socket address by default', () => {
+    const request = toRequest(incoming({ 'x-forwarded-for': '198.51.100.1' }), false);
+    expect(getClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('uses the forwarded address when the proxy is trusted', () => {
+    const forwarded = toRequest(incoming({ 'x-forwarded-for': '1.1.1.1, 198.51.100.1' }), true);
+    expect(getClientIp(forwarded)).toBe('198.51.100.1');
+    expect(getClientIp(toRequest(incoming({}), true))).toBe('203.0.113.7');
+  });
+
+  it('cannot be redirected to another host by the path', () => {
+    const request = toRequest(incoming({}), false, '//evil.com/api');
+    expect(new URL(request.url).host).toBe('docs.example.com');
+  });
+});
@@ -0,0 +1,76 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRef } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { buildHeadingTree, writeOutline, type OutlineEntry } from '../src/outline.js';
+
+const doc = await PDFDocument.create();
+
+function destinations(ids: string[]) {
+  return new Map(ids.map((id) => [id, doc.context.obj([PDFName.of('XYZ')]) as PDFArray]));
+}
+
+const titles = (entries: OutlineEntry[]): unknown[] =>
+  entries.map((entry) =>
+    entry.children.length > 0 ? [entry.title, titles(entry.children)] : entry.title
+  );
+
+describe('buildHeadingTree', () => {
+  it('nests headings by level', () => {
+    const headings = [
+      { id: 'intro', level: 1, title: 'Intro' },
+      { id: 'setup', level: 2, title: 'Setup' },
+      { id: 'npm', level: 3, title: 'npm' },
+      { id: 'usage', level: 2, title: 'Usage' },
+      { id: 'api', level: 1, title: 'API' },
+    ];
+    const tree = buildHeadingTree(headings, destinations(headings.map(({ id }) => id)));
+
+    expect(titles(tree)).toEqual([['Intro', [['Setup', ['npm']], 'Usage']], 'API']);
+  });
+
+  it('attaches skipped levels to the nearest higher heading', () => {
+    const headings = [
+      { id: 'a', level: 2, title: 'A' },
+      { id: 'b', level: 4, title: 'B' },
+      { id: 'c', level: 3, title: 'C' },
+      { id: 'd', level: 1, title: 'D' },
+    ];
+    const tree = buildHeadingTree(headings, destinations(['a', 'b', 'c', 'd']));
+
+    expect(titles(tree)).toEqual([['A', ['B', 'C']], 'D']);
+  });
+
+  it('skips headings without a destination', () => {
+    const headings = [
+      { id: 'a', level: 1, title: 'A' },
+      { id: 'missing', level: 2, title: 'Missing' },
+      { id: 'c', level: 3, title: 'C' },
+    ];
+    const dests = destinations(['a', 'c']);
+    const tree = buildHeadingTree(headings, dests);
+
+    expect(titles(tree)).toEqual([['A', ['C']]]);
+    expect(tree[0]!.dest).toBe(dests.get('a'));
+  });
+});
+
+describe('writeOutline', () => {
+  it('links the catalog to the outline and counts every item', async () => {
+    const output = await PDFDocument.create();
+    output.addPage();
+    const dest = () => output.context.obj([PDFName.of('Fit')]) as PDFArray;
+    writeOutline(output, [
+      { title: 'A', dest: dest(), children: [{ title: 'A.1', dest: dest(), children: [] }] },
+      { title: 'B', dest: dest(), children: [] },
+    ]);
+
+    const outlines = output.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+    expect(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber()).toBe(3);
+    expect(output.catalog.get(PDFName.of('PageMode'))).toBe(PDFName.of('UseOutlines'));
+
+    const first = outlines.lookup(PDFName.of('First'), PDFDict);
+    expect(first.get(PDFName.of('Next'))).toBeInstanceOf(PDFRef);
+    expect(first.lookup(PDFName.of('First'), PDFDict).get(PDFName.of('Parent'))).toBe(
+      outlines.get(PDFName.of('First'))
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { marginPresets, parseRequestOverrides, requestOverrideNames } from '../src/overrides.js';
+
+const parse = (query: string) =>
+  parseRequestOverrides(new URLSearchParams(query), requestOverrideNames);
+
+describe('parseRequestOverrides', () => {
+  it('parses allowed parameters', () => {
+    expect(
+      parse(
+        'layout=paginated&paperFormat=Letter&orientation=landscape&margins=wide' +
+          '&colorScheme=dark&includeImages=false&scale=1.5&format=pdf'
+      )
+    ).toEqual({
+      layout: 'paginated',
+      paperFormat: 'Letter',
+      orientation: 'landscape',
+      margins: marginPresets.wide,
+      colorScheme: 'dark',
+      includeImages: false,
+      scale: 1.5,
+      format: 'pdf',
+    });
+  });
+
+  it('ignores parameters that are not overrides', () => {
+    expect(parse('path=/docs&contentSelector=main')).toEqual({});
+  });
+
+  it('rejects parameters the handler does not allow', () => {
+    expect(() =>
+      parseRequestOverrides(new URLSearchParams('paperFormat=A4'), ['colorScheme'])
+    ).toThrow(
+      expect.objectContaining({
+        code: 'invalid-request',
+        status: 400,
+        message: 'The paperFormat parameter is not allowed',
+      })
+    );
+  });
+
+  it.each([
+    ['paperFormat=A3', 'Invalid paperFormat parameter "A3": expected one of A4, Letter, Legal'],
+    ['includeImages=1', 'Invalid includeImages parameter "1": expected true or false'],
+    ['margins=huge', 'Invalid margins parameter "huge"'],
+    ['layout=', 'Invalid layout parameter ""'],
+  ])('rejects %s', (query, message) => {
+    expect(() => parse(query)).toThrow(expect.objectContaining({ code: 'invalid-request' }));
+    expect(() => parse(query)).toThrow(message);
+  });
+
+  it.each(['0.1', '1', '2'])('accepts scale=%s', (scale) => {
+    expect(parse(`scale=${scale}`)).toEqual({ scale: Number(scale) });
+  });
+
+  it.each(['0.09', '2.01', '', ' ', 'abc', 'NaN', 'Infinity'])('rejects scale=%j', (scale) => {
+    expect(() => parse(`scale=${encodeURIComponent(scale)}`)).toThrow(
+      'expected a number from 0.1 to 2'
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { resolveOptions } from '../src/pipeline.js';
+import { presets } from '../src/types.js';
+
+describe('resolveOptions', () => {
+  it('applies a preset given by name', () => {
+    const config = resolveOptions('docusaurus');
+    expect(config.removeSelectors).toEqual(presets.docusaurus.removeSelectors);
+    expect(config.themeAttribute).toBe('data-theme');
+    expect(config.baseUrl).toBeUndefined();
+  });
+
+  it('combines the preset option with other options', () => {
+    const config = resolveOptions({
+      preset: 'docusaurus',
+      baseUrl: 'http://localhost:3000',
+      contentSelector: 'main',
+    });
+    expect(config.baseUrl).toBe('http://localhost:3000');
+    expect(config.contentSelector).toBe('main');
+    expect(config.tabContainerSelectors).toEqual(['.tabs-container']);
+    expect(config.margins).toEqual(resolveOptions().margins);
+  });
+
+  it('copies the preset selectors', () => {
+    resolveOptions({ preset: 'nextra' }).removeSelectors.push('.extra');
+    expect(presets.nextra.removeSelectors).not.toContain('.extra');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { RenderPage } from '../src/renderer.js';
+import type { ReadinessStep } from '../src/types.js';
+import { timedOutSteps, waitForPageReady } from '../src/readiness.js';
+
+const readiness = {
+  networkIdle: false,
+  fonts: true,
+  images: false,
+  quietPeriod: 0,
+  waitForSelector: [],
+  waitForFunction: [],
+  stepTimeout: 200,
+};
+
+/**
+ * Page that uses the `__PDF_READY__` signal and answers later evaluations with `evaluate`
+ */
+function fakePage(evaluate: (call: number) => Promise<unknown>) {
+  let calls = 0;
+  return {
+    evaluate: async () => {
+      calls++;
+      return calls === 1 ? true : evaluate(calls - 2);
+    },
+  } as unknown as RenderPage;
+}
+
+describe('waitForPageReady', () => {
+  it('records a rejected ready signal and fonts as failed steps', async () => {
+    const report: ReadinessStep[] = [];
+    const page = fakePage(async (call) => {
+      throw new Error(call === 0 ? 'ready signal rejected' : 'fonts failed');
+    });
+
+    await waitForPageReady(page, readiness, report);
+
+    expect(report).toMatchObject([
+      { step: 'ready-signal', timedOut: true, error: 'ready signal rejected' },
+      { step: 'fonts', timedOut: true, error: 'fonts failed' },
+    ]);
+    expect(timedOutSteps(report)).toEqual(['ready-signal', 'fonts']);
+  });
+
+  it('records steps that never finish as timed out', async () => {
+    const report: ReadinessStep[] = [];
+    const page = fakePage((call) => (call === 0 ? Promise.resolve(true) : new Promise(() => {})));
+
+    await waitForPageReady(page, readiness, report);
+
+    expect(report).toMatchObject([
+      { step: 'ready-signal', timedOut: false },
+      { step: 'fonts', timedOut: true },
+    ]);
+    expect(report[1].error).toBeUndefined();
+    expect(report[1].durationMs).toBeGreaterThanOrEqual(190);
+  });
+});
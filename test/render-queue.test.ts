@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRenderQueue, getClientIp, RenderQueueError } from '../src/render-queue.js';
+import { errorResponse } from '../src/route-handler.js';
+
+/**
+ * Task that runs until `finish` is called
+ */
+function pending() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return { task: () => done, finish };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRenderQueue', () => {
+  it('runs up to maxConcurrent tasks and queues the rest in order', async () => {
+    const queue = createRenderQueue({ maxConcurrent: 1, maxPerClient: 5 });
+    const first = pending();
+    const order: string[] = [];
+
+    const running = queue.run('a', first.task);
+    const queued = [
+      queue.run('b', async () => order.push('b')),
+      queue.run('c', async () => order.push('c')),
+    ];
+    expect(queue.stats()).toEqual({ running: 1, queued: 2 });
+
+    first.finish();
+    await Promise.all([running, ...queued]);
+    expect(order).toEqual(['b', 'c']);
+    expect(queue.stats()).toEqual({ running: 0, queued: 0 });
+  });
+
+  it('rejects when the queue is full', async () => {
+    const queue = createRenderQueue({ maxConcurrent: 1, maxQueueLength: 1, retryAfter: 7 });
+    const first = pending();
+    const running = queue.run('a', first.task);
+    const queued = queue.run('b', async () => undefined);
+
+    const rejected = queue.run('c', async () => undefined);
+    await expect(rejected).rejects.toMatchObject({
+      reason: 'queue-full',
+      status: 429,
+      retryAfter: 7,
+    });
+
+    first.finish();
+    await Promise.all([running, queued]);
+  });
+
+  it('limits renders per client, counting queued ones', async () => {
+    const queue = createRenderQueue({ maxConcurrent: 1, maxPerClient: 2 });
+    const first = pending();
+    const running = queue.run('a', first.task);
+    const queued = queue.run('a', async () => undefined);
+
+    await expect(queue.run('a', async () => undefined)).rejects.toMatchObject({
+      reason: 'client-limit',
+      status: 429,
+    });
+
+    first.finish();
+    await Promise.all([running, queued]);
+    await expect(queue.run('a', async () => 'again')).resolves.toBe('again');
+  });
+
+  it('times out queued renders with 503 and frees their slot', async () => {
+    vi.useFakeTimers();
+    const queue = createRenderQueue({ maxConcurrent: 1, maxPerClient: 1, queueTimeout: 1000 });
+    const first = pending();
+    const running = queue.run('a', first.task);
+
+    const queued = queue.run('b', async () => undefined);
+    const assertion = expect(queued).rejects.toMatchObject({ reason: 'timeout', status: 503 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(queue.stats()).toEqual({ running: 1, queued: 0 });
+
+    first.finish();
+    await running;
+    await expect(queue.run('b', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('releases the slot when a task throws', async () => {
+    const queue = createRenderQueue({ maxConcurrent: 1, maxPerClient: 1 });
+    await expect(queue.run('a', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(queue.stats()).toEqual({ running: 0, queued: 0 });
+    await expect(queue.run('a', async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('errorResponse', () => {
+  it.each([
+    ['queue-full', 429],
+    ['client-limit', 429],
+    ['timeout', 503],
+  ] as const)('answers %s with %i and Retry-After', async (reason, status) => {
+    const response = errorResponse(new RenderQueueError(reason, 12), 'none');
+    expect(response.status).toBe(status);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(await response.json()).toMatchObject({ code: 'busy', reason });
+  });
+});
+
+describe('getClientIp', () => {
+  it('prefers request.ip, then the last forwarded address, then x-real-ip', () => {
+    const request = (headers: Record<string, string>, ip?: string) =>
+      Object.assign(new Request('http://localhost/', { headers }), { ip });
+
+    expect(getClientIp(request({ 'x-forwarded-for': '1.1.1.1' }, '9.9.9.9'))).toBe('9.9.9.9');
+    expect(getClientIp(request({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2 ' }))).toBe('2.2.2.2');
+    expect(getClientIp(request({ 'x-real-ip': '3.3.3.3' }))).toBe('3.3.3.3');
+    expect(getClientIp(request({}))).toBe('anonymous');
+  });
+});
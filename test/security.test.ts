@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { RenderPage, RenderRequest } from '../src/renderer.js';
+import {
+  ExportSecurityError,
+  guardRequests,
+  isPrivateAddress,
+  matchesPathPrefix,
+  requestPolicy,
+  resolveOrigin,
+  resolvePageUrl,
+} from '../src/security.js';
+
+const origin = 'https://docs.example.com';
+
+describe('resolvePageUrl', () => {
+  it('resolves absolute paths on the origin', () => {
+    expect(resolvePageUrl('/docs/setup?tab=npm', origin)).toBe(
+      'https://docs.example.com/docs/setup?tab=npm'
+    );
+  });
+
+  it.each(['docs', '//evil.com/docs', '/\\evil.com', '@evil.com/', 'https://evil.com/', '/a\tb'])(
+    'rejects %j with 400',
+    (path) => {
+      expect(() => resolvePageUrl(path, origin)).toThrow(
+        expect.objectContaining({ name: 'ExportSecurityError', status: 400 })
+      );
+    }
+  );
+
+  it('rejects paths outside the allowed prefixes with 403', () => {
+    expect(resolvePageUrl('/docs/a', origin, ['/docs'])).toBe('https://docs.example.com/docs/a');
+    expect(() => resolvePageUrl('/docs-internal/a', origin, ['/docs'])).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+    expect(() => resolvePageUrl('/docs/../admin', origin, ['/docs'])).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+  });
+});
+
+describe('matchesPathPrefix', () => {
+  it('matches whole path segments', () => {
+    expect(matchesPathPrefix('/docs', ['/docs'])).toBe(true);
+    expect(matchesPathPrefix('/docs/a', ['/docs/'])).toBe(true);
+    expect(matchesPathPrefix('/docs-internal', ['/docs'])).toBe(false);
+    expect(matchesPathPrefix('/anything', ['/'])).toBe(true);
+  });
+});
+
+describe('resolveOrigin', () => {
+  it('prefers baseUrl over the Host header', () => {
+    expect(
+      resolveOrigin({ protocol: 'http:', host: 'evil.com' }, { baseUrl: 'http://localhost:3000/' })
+    ).toBe('http://localhost:3000');
+  });
+
+  it('accepts only allowed Host origins', () => {
+    const config = { allowedOrigins: ['https://docs.example.com'] };
+    expect(resolveOrigin({ protocol: 'https:', host: 'docs.example.com' }, config)).toBe(origin);
+    expect(() => resolveOrigin({ protocol: 'https:', host: 'internal:8080' }, config)).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+  });
+
+  it('rejects every request without baseUrl or allowedOrigins', () => {
+    expect(() => resolveOrigin({ protocol: 'http:', host: 'localhost:3000' }, {})).toThrow(
+      ExportSecurityError
+    );
+  });
+
+  it('rejects malformed Host headers with 400', () => {
+    const config = { allowedOrigins: [origin] };
+    expect(() =>
+      resolveOrigin({ protocol: 'https:', host: 'user@docs.example.com' }, config)
+    ).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:808:808'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('guardRequests', () => {
+  async function intercept(policy: Parameters<typeof guardRequests>[1]) {
+    let handler!: (request: RenderRequest) => boolean | Promise<boolean>;
+    const page = {
+      interceptRequests: async (value: typeof handler) => {
+        handler = value;
+      },
+    } as unknown as RenderPage;
+    const tracker = await guardRequests(page, policy);
+    return {
+      tracker,
+      isAllowed: (url: string, isNavigation = false) => handler({ url, isNavigation }),
+    };
+  }
+
+  it('blocks navigations to other origins', async () => {
+    const { tracker, isAllowed } = await intercept(
+      requestPolicy(origin, { blockPrivateNetwork: false })
+    );
+    expect(await isAllowed(`${origin}/docs/next`, true)).toBe(true);
+    expect(await isAllowed('https://evil.com/', true)).toBe(false);
+    expect(tracker.blockedNavigation).toBe('https://evil.com/');
+  });
+
+  it('lets subresources load from any public origin by default', async () => {
+    const { isAllowed } = await intercept(requestPolicy(origin, { blockPrivateNetwork: false }));
+    expect(await isAllowed('https://cdn.example.net/logo.png')).toBe(true);
+    expect(await isAllowed('ftp://cdn.example.net/logo.png')).toBe(false);
+  });
+
+  it('restricts subresources to allowedSubresourceOrigins', async () => {
+    const { isAllowed } = await intercept(
+      requestPolicy(origin, {
+        blockPrivateNetwork: false,
+        allowedSubresourceOrigins: ['https://cdn.example.com/assets/'],
+      })
+    );
+    expect(await isAllowed(`${origin}/logo.png`)).toBe(true);
+    expect(await isAllowed('https://cdn.example.com/font.woff2')).toBe(true);
+    expect(await isAllowed('https://tracker.example.net/pixel.gif')).toBe(false);
+    expect(await isAllowed('data:image/png;base64,AAAA')).toBe(true);
+  });
+});
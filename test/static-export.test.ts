@@ -0,0 +1,74 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { assignFileNames, readSitemap, toFileName } from '../src/static-export.js';
+
+describe('toFileName', () => {
+  it('mirrors the path', () => {
+    expect(toFileName('/docs/guides/setup')).toBe('docs/guides/setup');
+    expect(toFileName('/docs/guides/')).toBe('docs/guides');
+    expect(toFileName('/')).toBe('index');
+  });
+
+  it('sanitizes segments and drops traversal', () => {
+    expect(toFileName('/docs/a%20b/c?d')).toBe('docs/a-b/c');
+    expect(toFileName('/docs/%2e%2e/%2e%2e/etc')).toBe('etc');
+    expect(toFileName('/docs/..%2F..%2Fetc')).toBe('docs/..-..-etc');
+  });
+
+  it('keeps segments with malformed escapes', () => {
+    expect(toFileName('/a%zz')).toBe('a-zz');
+    expect(toFileName('/docs/%E0%A4%A/b%20c')).toBe('docs/-E0-A4-A/b-c');
+  });
+});
+
+describe('assignFileNames', () => {
+  it('suffixes colliding names in input order', () => {
+    const names = assignFileNames(['/a b', '/a-b', '/A-B', '/a-b-2']);
+    expect([...names.values()]).toEqual(['a-b', 'a-b-2', 'A-B-3', 'a-b-2-2']);
+  });
+
+  it('keeps the bundle and manifest names free', () => {
+    expect(assignFileNames(['/bundle', '/manifest']).get('/bundle')).toBe('bundle-2');
+  });
+});
+
+describe('readSitemap', () => {
+  // Nothing listens here, so file paths fall back to the file system
+  const origin = 'http://127.0.0.1:9';
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'pdf-sitemap-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads page paths from <loc> entries', async () => {
+    const file = join(directory, 'sitemap.xml');
+    await writeFile(
+      file,
+      `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc> https://docs.example.com/docs/a </loc></url>
+  <url><loc>https://docs.example.com/docs/b?x=1&amp;y=2</loc></url>
+  <url><loc>/docs/c</loc></url>
+</urlset>`
+    );
+    expect(await readSitemap(file, origin)).toEqual(['/docs/a', '/docs/b', '/docs/c']);
+  });
+
+  it('follows one level of sitemap index', async () => {
+    const index = join(directory, 'sitemap-index.xml');
+    const pages = join(directory, 'pages.xml');
+    await writeFile(
+      pages,
+      '<urlset><url><loc>https://docs.example.com/docs/a</loc></url></urlset>'
+    );
+    await writeFile(index, `<sitemapindex><sitemap><loc>${pages}</loc></sitemap></sitemapindex>`);
+    expect(await readSitemap(index, origin)).toEqual(['/docs/a']);
+  });
+});
@@ -0,0 +1,67 @@
+import { crc32, inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip } from '../src/zip.js';
+
+/**
+ * Read an archive through its central directory
+ */
+function readZip(zip: Uint8Array) {
+  const buffer = Buffer.from(zip);
+  const end = buffer.length - 22;
+  expect(buffer.readUInt32LE(end)).toBe(0x06054b50);
+  const count = buffer.readUInt16LE(end + 10);
+  let position = buffer.readUInt32LE(end + 16);
+
+  return Array.from({ length: count }, () => {
+    expect(buffer.readUInt32LE(position)).toBe(0x02014b50);
+    const flags = buffer.readUInt16LE(position + 8);
+    const method = buffer.readUInt16LE(position + 10);
+    const crc = buffer.readUInt32LE(position + 16);
+    const compressedSize = buffer.readUInt32LE(position + 20);
+    const nameLength = buffer.readUInt16LE(position + 28);
+    const offset = buffer.readUInt32LE(position + 42);
+    const name = buffer.toString('utf8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength;
+
+    expect(buffer.readUInt32LE(offset)).toBe(0x04034b50);
+    const start = offset + 30 + buffer.readUInt16LE(offset + 26);
+    const body = buffer.subarray(start, start + compressedSize);
+    const data = method === 0 ? body : inflateRawSync(body);
+    return { name, flags, method, crc, data: data.toString('utf8') };
+  });
+}
+
+describe('createZip', () => {
+  it('writes entries in order, stored or deflated, with their CRC', () => {
+    const text = 'Hello, PDF export! '.repeat(50);
+    const entries = readZip(
+      createZip([
+        { name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true },
+        { name: 'OEBPS/page.xhtml', data: Buffer.from(text) },
+      ])
+    );
+
+    expect(entries.map(({ name, method }) => [name, method])).toEqual([
+      ['mimetype', 0],
+      ['OEBPS/page.xhtml', 8],
+    ]);
+    expect(entries[1]!.data).toBe(text);
+    expect(entries[1]!.crc).toBe(crc32(text));
+  });
+
+  it('flags UTF-8 names', () => {
+    const [ascii, unicode] = readZip(
+      createZip([
+        { name: 'a.pdf', data: new Uint8Array() },
+        { name: 'über.pdf', data: new Uint8Array() },
+      ])
+    );
+    expect(ascii!.flags & 0x0800).toBe(0);
+    expect(unicode!.flags & 0x0800).toBe(0x0800);
+    expect(unicode!.name).toBe('über.pdf');
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});